@@ -0,0 +1,164 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { deleteSession, loadSessions, ShootingSession } from '@/lib/sessions/store';
+import { groupInMoa } from '@/lib/sessions/summary';
+
+// Sessões mais recentes que entram nos gráficos de tendência
+const TREND_SESSIONS = 10;
+
+const formatDate = (t: number) =>
+  new Date(t).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (session: ShootingSession) => {
+  if (session.endedAt === null) return 'em andamento';
+  const minutes = Math.round((session.endedAt - session.startedAt) / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Tamanho do grupo: raio médio em mil (e MOA), ou px quando os marcadores não tinham calibração
+const formatGroup = (session: ShootingSession) => {
+  const { group, groupUnit } = session.summary;
+  if (!group || group.count < 2) return '—';
+  if (groupUnit === 'px') return `RM ${group.meanRadius.toFixed(0)} px`;
+  return `RM ${group.meanRadius.toFixed(2)} mil (${groupInMoa(group).meanRadius.toFixed(2)} MOA)`;
+};
+
+// Barras simples, da sessão mais antiga para a mais nova; menor é melhor nas duas métricas
+function TrendBars({ title, values, unit }: { title: string; values: (number | null)[]; unit: string }) {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length < 2) return null;
+  const max = Math.max(...present);
+  const first = present[0];
+  const last = present[present.length - 1];
+  const change = first > 0 ? ((last - first) / first) * 100 : 0;
+
+  return (
+    <View style={styles.trend}>
+      <ThemedText type="defaultSemiBold">{title}</ThemedText>
+      <View style={styles.bars}>
+        {values.map((v, i) => (
+          <View key={i} style={styles.barSlot}>
+            {v !== null && <View style={[styles.bar, { height: `${Math.max(4, (v / max) * 100)}%` }]} />}
+          </View>
+        ))}
+      </View>
+      <ThemedText style={styles.muted}>
+        Última: {last.toFixed(2)} {unit} · {change <= 0 ? '▼' : '▲'} {Math.abs(change).toFixed(0)}% desde a primeira
+      </ThemedText>
+    </View>
+  );
+}
+
+export default function HistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const [sessions, setSessions] = useState<ShootingSession[]>([]);
+
+  // Recarrega ao voltar para a aba (a tela da mira grava enquanto isso)
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions().then((list) => setSessions(list.slice().reverse()));
+    }, [])
+  );
+
+  const confirmDelete = (session: ShootingSession) => {
+    Alert.alert('Excluir sessão', `Excluir a sessão de ${formatDate(session.startedAt)}?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Excluir',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteSession(session.id);
+          setSessions((list) => list.filter((s) => s.id !== session.id));
+        },
+      },
+    ]);
+  };
+
+  const trend = sessions.slice(0, TREND_SESSIONS).reverse();
+
+  return (
+    <ThemedView style={[styles.container, { paddingTop: insets.top + 16 }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText type="title">Histórico</ThemedText>
+
+        {sessions.length === 0 ? (
+          <ThemedText style={styles.muted}>
+            Nenhuma sessão ainda. Inicie uma sessão na mira (⏱️) e marque os tiros.
+          </ThemedText>
+        ) : (
+          <>
+            <TrendBars
+              title="Estabilidade média no disparo"
+              values={trend.map((s) => s.summary.avgStability)}
+              unit="pts"
+            />
+            <TrendBars
+              title="Raio médio do grupo"
+              values={trend.map((s) => (s.summary.groupUnit === 'mil' && s.summary.group ? s.summary.group.meanRadius : null))}
+              unit="mil"
+            />
+
+            {sessions.map((session) => (
+              <TouchableOpacity key={session.id} onLongPress={() => confirmDelete(session)} style={styles.card}>
+                <ThemedText type="defaultSemiBold">
+                  {formatDate(session.startedAt)} · {formatDuration(session)}
+                </ThemedText>
+                {session.profileName && <ThemedText style={styles.muted}>Perfil: {session.profileName}</ThemedText>}
+                <ThemedText>
+                  {session.summary.shots} tiros · estabilidade{' '}
+                  {session.summary.avgStability === null ? '—' : session.summary.avgStability.toFixed(1)} ·{' '}
+                  {formatGroup(session)}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+            <ThemedText style={styles.muted}>Segure uma sessão para excluí-la.</ThemedText>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  muted: {
+    opacity: 0.6,
+    fontSize: 13,
+  },
+  trend: {
+    gap: 6,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 80,
+    gap: 4,
+  },
+  barSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    backgroundColor: '#0a7ea4',
+    borderRadius: 2,
+  },
+  card: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.3)',
+    gap: 4,
+  },
+});
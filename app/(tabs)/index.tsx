@@ -3,7 +3,16 @@ import { CameraType, CameraView, useCameraPermissions } from 'expo-camera';
 import { DeviceMotion } from 'expo-sensors';
 import { useEffect, useRef, useState } from 'react';
 import { Alert, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { WebView } from 'react-native-webview';
+
+import { createOverlayDispatcher, postToOverlay } from '@/lib/bridge/dispatcher';
+import { OVERLAY_SCRIPT } from '@/lib/bridge/overlay-script';
+import { takeSightPhoto } from '@/lib/capture/photo';
+import { deleteProfile, loadProfiles, replaceProfiles, saveProfile } from '@/lib/profiles/repository';
+import { createStabilityEngine, STABILITY_PRESETS, toMotionSample } from '@/lib/stability/engine';
+
+// Deltas de rotação em janela de 5 leituras, ×500, sem limite
+const STABILITY_CONFIG = STABILITY_PRESETS.rotation;
 
 export default function HomeScreen() {
   const [facing, setFacing] = useState<CameraType>('back');
@@ -21,8 +30,7 @@ export default function HomeScreen() {
 
   // Sistema de estabilidade baseado em TREMOR (variação), não posição absoluta
   useEffect(() => {
-    let lastRotation = { alpha: 0, beta: 0, gamma: 0 };
-    let stabilityHistory: number[] = [];
+    const engine = createStabilityEngine(STABILITY_CONFIG);
     let updateCount = 0;
 
     DeviceMotion.setUpdateInterval(100); // 10 leituras por segundo
@@ -34,43 +42,14 @@ export default function HomeScreen() {
         console.log(`📡 DeviceMotion ativo - Update #${updateCount}`, data.rotation);
       }
       
-      if (data.rotation) {
-        const { alpha, beta, gamma } = data.rotation;
-        
-        // Calcula VARIAÇÃO (tremor) entre leituras
-        const deltaAlpha = Math.abs((alpha || 0) - lastRotation.alpha);
-        const deltaBeta = Math.abs((beta || 0) - lastRotation.beta);
-        const deltaGamma = Math.abs((gamma || 0) - lastRotation.gamma);
-        
-        const tremor = deltaAlpha + deltaBeta + deltaGamma;
-        
-        // Atualiza última leitura
-        lastRotation = { alpha: alpha || 0, beta: beta || 0, gamma: gamma || 0 };
-        
-        // Histórico para suavizar (média móvel)
-        stabilityHistory.push(tremor);
-        if (stabilityHistory.length > 5) {
-          stabilityHistory.shift();
-        }
-        
-        // Média do tremor
-        const avgTremor = stabilityHistory.reduce((a, b) => a + b, 0) / stabilityHistory.length;
-        
-        // Converte tremor para score visível (0-50, menor é melhor)
-        const displayScore = avgTremor * 500; // Amplifica para visualização
-        let score = displayScore;
-        
-        setStabilityScore(score);
-        
-        // Envia para o WebView atualizar a UI
-        if (webViewRef.current) {
-          webViewRef.current.injectJavaScript(`
-            if (typeof window.updateStability === 'function') {
-              window.updateStability(${score.toFixed(1)});
-              true;
-            }
-          `);
-        }
+      const score = engine.push(toMotionSample(data));
+      if (score === null) return;
+      
+      setStabilityScore(score);
+      
+      // Envia para o WebView atualizar a UI
+      if (webViewRef.current) {
+        postToOverlay(webViewRef, { type: 'stability', score: Number(score.toFixed(1)) });
       }
     });
 
@@ -96,139 +75,81 @@ export default function HomeScreen() {
     );
   }
 
-  const handleWebViewMessage = async (event: WebViewMessageEvent) => {
-    try {
-      const data = JSON.parse(event.nativeEvent.data);
-      console.log('📨 Mensagem recebida do WebView:', data);
-      
-      switch (data.type) {
-        case 'zoom':
-          // Converte 0-1 do slider para 0-1 da câmera
-          const zoomValue = Math.max(0, Math.min(1, data.value));
-          setZoom(zoomValue);
-          console.log(`🔍 Zoom ajustado: ${(data.value * 10).toFixed(1)}x (normalizado: ${zoomValue.toFixed(2)})`);
-          break;
-
-        case 'saveProfile':
-          try {
-            // Valida se os dados estão completos
-            if (!data.name) {
-              console.log('⚠️ Salvamento cancelado - sem nome de perfil');
-              break;
-            }
-            
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            const profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            // Os dados vêm direto no data (name, zoom, reticleType, reticleColor)
-            const profile = {
-              name: data.name,
-              zoom: data.zoom || 0,
-              reticleType: data.reticleType || 'cruz',
-              reticleColor: data.reticleColor || '#0f0'
-            };
-            profiles.push(profile);
-            await AsyncStorage.setItem('airsoftProfiles', JSON.stringify(profiles));
-            Alert.alert('✅ Sucesso', `Perfil "${profile.name}" salvo!`);
-            console.log('✅ Perfil salvo:', profile);
-          } catch (error) {
-            Alert.alert('❌ Erro', 'Falha ao salvar perfil');
-            console.error('Erro ao salvar perfil:', error);
-          }
-          break;
+  const handleWebViewMessage = createOverlayDispatcher(webViewRef, {
+    zoom: ({ value }) => {
+      // Converte 0-1 do slider para 0-1 da câmera
+      const zoomValue = Math.max(0, Math.min(1, value));
+      setZoom(zoomValue);
+      console.log(`🔍 Zoom ajustado: ${(value * 10).toFixed(1)}x (normalizado: ${zoomValue.toFixed(2)})`);
+    },
 
-        case 'loadProfile':
-        case 'loadProfiles':
-          try {
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            const profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            webViewRef.current?.injectJavaScript(`
-              if (window.receiveProfiles) {
-                window.receiveProfiles(${JSON.stringify(profiles)});
-              }
-            `);
-            console.log('📂 Perfis carregados:', profiles.length);
-          } catch (error) {
-            Alert.alert('❌ Erro', 'Falha ao carregar perfis');
-            console.error('Erro ao carregar perfis:', error);
-          }
-          break;
-
-        case 'deleteProfile':
-          try {
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            let profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            profiles = profiles.filter((p: any) => p.id !== data.id);
-            await AsyncStorage.setItem('airsoftProfiles', JSON.stringify(profiles));
-            console.log('🗑️ Perfil deletado:', data.id);
-          } catch (error) {
-            console.error('Erro ao deletar perfil:', error);
-          }
-          break;
-
-        case 'saveAllProfiles':
-          try {
-            await AsyncStorage.setItem('airsoftProfiles', JSON.stringify(data.profiles));
-            console.log('💾 Todos os perfis salvos (total:', data.profiles.length, ')');
-          } catch (error) {
-            console.error('Erro ao salvar perfis:', error);
-          }
-          break;
+    saveProfile: async ({ profile }) => {
+      try {
+        await saveProfile(profile);
+        Alert.alert('✅ Sucesso', `Perfil "${profile.name}" salvo!`);
+        console.log('✅ Perfil salvo:', profile.name);
+      } catch (error) {
+        Alert.alert('❌ Erro', 'Falha ao salvar perfil');
+        throw error;
+      }
+    },
 
-        case 'takePhoto':
-          console.log('📷 Captura de foto solicitada');
-          break;
+    loadProfiles: async () => {
+      try {
+        const profiles = await loadProfiles();
+        console.log('📂 Perfis carregados:', profiles.length);
+        return { type: 'profiles', profiles };
+      } catch (error) {
+        Alert.alert('❌ Erro', 'Falha ao carregar perfis');
+        throw error;
+      }
+    },
 
-        case 'saveState':
-          try {
-            await AsyncStorage.setItem('airsoftState', JSON.stringify(data.state));
-            console.log('💾 Estado auto-salvo');
-          } catch (error) {
-            console.error('Erro ao salvar estado:', error);
-          }
-          break;
+    deleteProfile: async ({ id }) => {
+      await deleteProfile(id);
+      console.log('🗑️ Perfil deletado:', id);
+    },
 
-        case 'loadState':
-          try {
-            const stateJson = await AsyncStorage.getItem('airsoftState');
-            const state = stateJson ? JSON.parse(stateJson) : null;
-            if (state && webViewRef.current) {
-              webViewRef.current.injectJavaScript(`
-                if (window.applyState) {
-                  window.applyState(${JSON.stringify(state)});
-                }
-              `);
-              console.log('📂 Estado restaurado');
-            }
-          } catch (error) {
-            console.error('Erro ao carregar estado:', error);
-          }
-          break;
+    saveAllProfiles: async ({ profiles }) => {
+      const saved = await replaceProfiles(profiles);
+      console.log('💾 Todos os perfis salvos (total:', saved.length, ')');
+    },
 
-        case 'stateChanged':
-          console.log('Estado atualizado:', data.state);
-          break;
+    takePhoto: async ({ reticle, pitch, roll }) => {
+      console.log('📷 Captura de foto solicitada');
+      if (!cameraRef.current) throw new Error('Câmera indisponível');
+      const asset = await takeSightPhoto(cameraRef.current, {
+        takenAt: new Date().toISOString(),
+        reticle,
+        zoom,
+        pitch,
+        roll,
+        stabilityScore,
+      });
+      return { type: 'photoSaved', assetId: asset.id, uri: asset.uri };
+    },
 
-        case 'ready':
-        case 'webview_ready':
-          console.log('✅ WebView pronto:', data.message || 'Carregado');
-          break;
+    saveState: async ({ state }) => {
+      await AsyncStorage.setItem('airsoftState', JSON.stringify(state));
+      console.log('💾 Estado auto-salvo');
+    },
 
-        case 'dpad':
-          console.log('🎮 D-Pad pressionado:', data.direction);
-          break;
+    loadState: async () => {
+      const stateJson = await AsyncStorage.getItem('airsoftState');
+      const state = stateJson ? JSON.parse(stateJson) : null;
+      console.log('📂 Estado restaurado');
+      return { type: 'state', state };
+    },
 
-        case 'calibrate':
-        case 'tare':
-          console.log('🎯 Calibração/Tara solicitada');
-          break;
+    ready: ({ message }) => {
+      console.log('✅ WebView pronto:', message || 'Carregado');
+      return { type: 'stabilityThresholds', thresholds: STABILITY_CONFIG.thresholds };
+    },
 
-        default:
-          console.log('❓ Mensagem não reconhecida:', data);
-      }
-    } catch (error) {
-      console.error('Erro ao processar mensagem:', error);
-    }
-  };
+    tare: () => {
+      console.log('🎯 Calibração/Tara solicitada');
+    },
+  });
 
   // Lê o arquivo HTML original completo
   const htmlSource = require('../index.html');
@@ -263,6 +184,8 @@ export default function HomeScreen() {
           mediaPlaybackRequiresUserAction={false}
           // Propriedades para transparência no Android
           androidLayerType="hardware"
+          // Biblioteca de retículos disponível antes dos scripts do overlay rodarem
+          injectedJavaScriptBeforeContentLoaded={OVERLAY_SCRIPT}
           // Injeta CSS adicional para garantir transparência
           injectedJavaScript={`
             document.body.style.background = 'transparent';
@@ -276,11 +199,7 @@ export default function HomeScreen() {
               const state = stateJson ? JSON.parse(stateJson) : null;
               if (state) {
                 setTimeout(() => {
-                  webViewRef.current?.injectJavaScript(`
-                    if (window.applyState) {
-                      window.applyState(${JSON.stringify(state)});
-                    }
-                  `);
+                  postToOverlay(webViewRef, { type: 'state', state });
                   console.log('🚀 Estado inicial restaurado');
                 }, 500); // Aguarda 500ms para garantir que o HTML carregou
               }
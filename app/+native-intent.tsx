@@ -0,0 +1,11 @@
+import { isImportLink, isSharedFile } from '@/lib/profiles/transfer';
+
+// Links de importação e arquivos de perfis abertos com o app vão para a tela da mira; o pacote é lido lá (Linking.useURL)
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    if (isImportLink(path) || isSharedFile(path)) return '/';
+  } catch (error) {
+    console.warn('⚠️ Link não reconhecido:', path, error);
+  }
+  return path;
+}
@@ -1,12 +1,54 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Asset } from 'expo-asset';
-import { CameraType, CameraView, useCameraPermissions } from 'expo-camera';
+import { useRouter } from 'expo-router';
+import { BarcodeScanningResult, CameraType, CameraView, useCameraPermissions } from 'expo-camera';
+import * as Haptics from 'expo-haptics';
+import * as Linking from 'expo-linking';
 import * as NavigationBar from 'expo-navigation-bar';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import { DeviceMotion } from 'expo-sensors';
 import { useEffect, useRef, useState } from 'react';
 import { Alert, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { WebView } from 'react-native-webview';
+
+import { useSceneSampler } from '@/hooks/use-scene-sampler';
+import { useScreenOrientation } from '@/hooks/use-screen-orientation';
+import { useSightRecording } from '@/hooks/use-sight-recording';
+import { useVolumeTrigger } from '@/hooks/use-volume-trigger';
+import { solveTrajectory } from '@/lib/ballistics/bb';
+import { createOverlayDispatcher, postToOverlay } from '@/lib/bridge/dispatcher';
+import { OVERLAY_SCRIPT } from '@/lib/bridge/overlay-script';
+import { takeSightPhoto } from '@/lib/capture/photo';
+import { createCaptureQueue } from '@/lib/capture/queue';
+import { findConflict } from '@/lib/profiles/merge';
+import { deleteProfile, loadProfiles, replaceProfiles, saveProfile, updateProfile } from '@/lib/profiles/repository';
+import {
+  applyProfileImport,
+  buildProfileBundle,
+  exportProfileBundle,
+  isImportLink,
+  isSharedFile,
+  pickProfileFile,
+  ProfileBundle,
+  profileQrSvg,
+  readImportLink,
+  readSharedProfileFile,
+} from '@/lib/profiles/transfer';
+import { deriveFovCalibration, DeviceFov } from '@/lib/optics/angular';
+import { DEFAULT_ZOOM_CURVE, magnificationAt, normalizeZoomCurve, ZoomCurve } from '@/lib/optics/zoom';
+import { applyTare, Attitude, createOrientationFusion } from '@/lib/orientation/fusion';
+import { addImportedReticle, deleteCustomReticle, loadCustomReticles, saveCustomReticle } from '@/lib/reticles/store';
+import { exportReticle, pickReticleFile } from '@/lib/reticles/transfer';
+import { appendShot, endSession, findOpenSession, ShootingSession, startSession } from '@/lib/sessions/store';
+import { deriveThresholds } from '@/lib/stability/calibration';
+import { createStabilityEngine, STABILITY_PRESETS, toMotionSample } from '@/lib/stability/engine';
+import { createFireWindow, DEFAULT_FIRE_ASSIST, FireAssistSettings } from '@/lib/stability/fire-window';
+import { deleteWeapon, loadWeapons, saveWeapon, setWeaponPhoto, weaponPhotoDataUri } from '@/lib/weapons/store';
+
+// Deltas de aceleração em janela de 15 leituras (1.5 s), ×25, limitado a 100
+const STABILITY_CONFIG = STABILITY_PRESETS.acceleration;
+
+const ZERO_TARE: Attitude = { pitch: 0, roll: 0 };
 
 export default function CameraScreen() {
   const [facing, setFacing] = useState<CameraType>('back');
@@ -16,6 +58,38 @@ export default function CameraScreen() {
   const [htmlContent, setHtmlContent] = useState<string | null>(null);
   const cameraRef = useRef<CameraView>(null);
   const webViewRef = useRef<WebView>(null);
+  const fireAssistRef = useRef<FireAssistSettings>(DEFAULT_FIRE_ASSIST);
+  const tareRef = useRef<Attitude>(ZERO_TARE);
+  // Tara gravada pelo usuário; a de um perfil só vale enquanto ele está carregado
+  const userTareRef = useRef<Attitude>(ZERO_TARE);
+  const rawAttitudeRef = useRef<Attitude>(ZERO_TARE);
+  // Foto da mira, foto da arma e amostra da cena nunca disputam a câmera
+  const [captureQueue] = useState(createCaptureQueue);
+  const zoomCurveRef = useRef<ZoomCurve>(DEFAULT_ZOOM_CURVE);
+  const fovRef = useRef<DeviceFov>({});
+  const sessionRef = useRef<ShootingSession | null>(null);
+  const [volumeTrigger, setVolumeTrigger] = useState(false);
+  const [scanningQr, setScanningQr] = useState(false);
+  const pendingImportRef = useRef<ProfileBundle | null>(null);
+  const overlayReadyRef = useRef(false);
+  const incomingUrl = Linking.useURL();
+  const router = useRouter();
+  const recording = useSightRecording(cameraRef, (reason) =>
+    postToOverlay(webViewRef, { type: 'recordingFailed', reason })
+  );
+  const orientationRef = useScreenOrientation();
+  const { pushSample } = recording;
+  // Cada toque no volume vira um disparo; o overlay completa com perfil, distância e estabilidade
+  useVolumeTrigger(volumeTrigger, () => postToOverlay(webViewRef, { type: 'trigger', source: 'volume' }));
+
+  // Contraste automático: quadros da cena vão para o overlay, que escolhe a cor da mira
+  const sceneSampler = useSceneSampler(
+    cameraRef,
+    recording.cameraMode === 'video',
+    captureQueue,
+    rawAttitudeRef,
+    (rgb) => postToOverlay(webViewRef, { type: 'sceneColor', rgb })
+  );
 
   // Carrega o arquivo HTML
   useEffect(() => {
@@ -61,10 +135,10 @@ export default function CameraScreen() {
 
   // Sistema de estabilidade baseado em TREMOR (variação), não posição absoluta
   useEffect(() => {
-    let lastAcceleration = { x: 0, y: 0, z: 0 };
-    let stabilityHistory: number[] = [];
+    const engine = createStabilityEngine(STABILITY_CONFIG);
+    const fireWindow = createFireWindow();
+    const fusion = createOrientationFusion();
     let updateCount = 0;
-    let isInitialized = false;
 
     DeviceMotion.setUpdateInterval(100); // 10 leituras por segundo
 
@@ -75,94 +149,79 @@ export default function CameraScreen() {
         console.log(`📡 DeviceMotion ativo - Update #${updateCount}`);
       }
       
-      // Tenta usar acceleration, se não disponível usa accelerationIncludingGravity
-      let acceleration = data.acceleration || data.accelerationIncludingGravity;
+      // Elevação e cant fundidos (acelerômetro + giroscópio) na orientação real da tela
+      const attitude = fusion.update(
+        {
+          t: Date.now(),
+          gravity: data.accelerationIncludingGravity,
+          rotationRate: data.rotationRate
+            ? { x: data.rotationRate.alpha, y: data.rotationRate.beta, z: data.rotationRate.gamma }
+            : null,
+        },
+        orientationRef.current
+      );
+      rawAttitudeRef.current = attitude;
+      // Valores relativos à tara ativa (zero do usuário)
+      const { pitch, roll } = applyTare(attitude, tareRef.current);
       
-      if (acceleration) {
-        const { x, y, z } = acceleration;
-        
-        // Inicialização - ignora primeira leitura
-        if (!isInitialized) {
-          lastAcceleration = { x: x || 0, y: y || 0, z: z || 0 };
-          isInitialized = true;
-          return;
-        }
-        
-        // Calcula VARIAÇÃO (tremor) entre leituras em todos os eixos
-        const deltaX = Math.abs((x || 0) - lastAcceleration.x);
-        const deltaY = Math.abs((y || 0) - lastAcceleration.y);
-        const deltaZ = Math.abs((z || 0) - lastAcceleration.z);
-        
-        // Soma das variações = tremor total
-        const tremor = deltaX + deltaY + deltaZ;
-        
-        // Atualiza última leitura
-        lastAcceleration = { x: x || 0, y: y || 0, z: z || 0 };
-        
-        // Histórico para suavizar (média móvel de 15 leituras = 1.5 segundos)
-        // Histórico menor = mais difícil de estabilizar
-        stabilityHistory.push(tremor);
-        if (stabilityHistory.length > 15) {
-          stabilityHistory.shift();
-        }
-        
-        // Média do tremor
-        const avgTremor = stabilityHistory.reduce((a, b) => a + b, 0) / stabilityHistory.length;
-        
-        // Converte tremor para score visível
-        // Multiplica por 25 (ajustado para dificuldade moderada)
-        // Valores típicos: 0-4 = muito estável, 4-10 = estável, 10-20 = instável, 20+ = muito instável
-        const displayScore = avgTremor * 25;
-        let score = Math.min(displayScore, 100); // Limita a 100
-        
-        setStabilityScore(score);
-        
-        // Log detalhado a cada 50 updates
-        if (updateCount % 50 === 0) {
-          console.log(`🎯 Estabilidade - Tremor: ${avgTremor.toFixed(3)}, Score: ${score.toFixed(1)}`);
-          
-          // Log dos valores de rotação para debug
-          if (data.rotation) {
-            console.log(`📐 Rotation - Beta: ${data.rotation.beta?.toFixed(3)}, Gamma: ${data.rotation.gamma?.toFixed(3)}, Alpha: ${data.rotation.alpha?.toFixed(3)}`);
-          }
-        }
+      // Inicialização - a primeira leitura não gera score
+      const score = engine.push(toMotionSample(data));
+      if (score === null) return;
+      
+      setStabilityScore(score);
+      
+      // Janela de disparo: pulso háptico quando a empunhadura fica estável pelo tempo configurado
+      const fireEvent = fireWindow.update(score, fireAssistRef.current);
+      if (fireEvent === 'open') {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+      }
+      if (fireEvent) {
+        postToOverlay(webViewRef, { type: 'fireWindow', open: fireEvent === 'open' });
+      }
+      
+      // Log detalhado a cada 50 updates
+      if (updateCount % 50 === 0) {
+        console.log(`🎯 Estabilidade - Score: ${score.toFixed(1)} (${engine.level(score)})`);
         
-        // Envia para o WebView atualizar a UI
-        if (webViewRef.current) {
-          // DeviceMotion.rotation retorna valores que podem estar em radianos ou graus
-          // dependendo da plataforma. Vamos tentar ambos os formatos.
-          
-          // Tenta usar rotation (valores em radianos - iOS/Android nativos)
-          let pitch = 0;
-          let roll = 0;
-          
-          if (data.rotation) {
-            // Converte de radianos para graus
-            pitch = data.rotation.beta ? (data.rotation.beta * 180 / Math.PI) : 0;
-            roll = data.rotation.gamma ? (data.rotation.gamma * 180 / Math.PI) : 0;
-          }
-          
-          // Se os valores parecerem muito grandes (> 360), provavelmente já estão em graus
-          if (Math.abs(pitch) > 360 || Math.abs(roll) > 360) {
-            pitch = data.rotation?.beta || 0;
-            roll = data.rotation?.gamma || 0;
-          }
-          
-          webViewRef.current.injectJavaScript(`
-            if (typeof window.updateStability === 'function') {
-              window.updateStability(${score.toFixed(1)});
-            }
-            if (typeof window.updateOrientation === 'function') {
-              window.updateOrientation(${pitch.toFixed(1)}, ${roll.toFixed(1)});
-            }
-            true;
-          `);
-        }
+        // Log da atitude fundida para debug
+        console.log(`📐 Atitude (${orientationRef.current}) - Pitch: ${pitch.toFixed(1)}°, Roll: ${roll.toFixed(1)}°`);
+      }
+      
+      // Envia para o WebView atualizar a UI
+      if (webViewRef.current) {
+        // Alimenta a trilha de telemetria quando há gravação em andamento
+        pushSample({ pitch, roll, stability: score });
+
+        postToOverlay(webViewRef, { type: 'stability', score: Number(score.toFixed(1)) });
+        postToOverlay(webViewRef, { type: 'orientation', pitch: Number(pitch.toFixed(1)), roll: Number(roll.toFixed(1)) });
       }
     });
 
     return () => subscription && subscription.remove();
-  }, []);
+  }, [pushSample, orientationRef]);
+
+  // Guarda o pacote recebido e mostra a prévia no overlay (assim que ele estiver pronto)
+  const offerImport = async (bundle: ProfileBundle) => {
+    pendingImportRef.current = bundle;
+    if (!overlayReadyRef.current) return;
+    const existing = await loadProfiles();
+    postToOverlay(webViewRef, {
+      type: 'profileImport',
+      profiles: bundle.profiles.map((p) => ({ name: p.name, conflict: findConflict(existing, p) !== null })),
+      reticles: bundle.reticles.length,
+    });
+  };
+
+  // Link airsoftprosight://import (QR lido pela câmera do sistema) ou arquivo .json aberto com o app
+  useEffect(() => {
+    if (!incomingUrl) return;
+    // readImportLink devolve null para qualquer outro link
+    const read = async () =>
+      isSharedFile(incomingUrl) ? readSharedProfileFile(incomingUrl) : readImportLink(incomingUrl);
+    read()
+      .then((bundle) => bundle && offerImport(bundle))
+      .catch((error) => Alert.alert('❌ Importação', String(error instanceof Error ? error.message : error)));
+  }, [incomingUrl]);
 
   if (!permission) {
     return (
@@ -183,168 +242,346 @@ export default function CameraScreen() {
     );
   }
 
-  const handleWebViewMessage = async (event: WebViewMessageEvent) => {
+  const handleBarcodeScanned = async ({ data }: BarcodeScanningResult) => {
+    if (!isImportLink(data)) return;
+    setScanningQr(false);
     try {
-      const data = JSON.parse(event.nativeEvent.data);
-      console.log('📨 Mensagem recebida do WebView:', data);
-      
-      switch (data.type) {
-        case 'hideNavigationBar':
-          // Esconde a barra de navegação do Android quando solicitado
-          if (NavigationBar.setVisibilityAsync) {
-            NavigationBar.setVisibilityAsync('hidden');
-            console.log('🎮 Barra de navegação ocultada via WebView');
-          }
-          break;
-          
-        case 'zoom':
-          // Converte 0-1 do slider para 0-1 da câmera
-          const zoomValue = Math.max(0, Math.min(1, data.value));
-          setZoom(zoomValue);
-          console.log(`🔍 Zoom ajustado: ${(data.value * 10).toFixed(1)}x (normalizado: ${zoomValue.toFixed(2)})`);
-          break;
-
-        case 'saveProfile':
-          try {
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            const profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            const newProfile = data.profile || data;
-            if (!newProfile.name) break;
-            profiles.push(newProfile);
-            await AsyncStorage.setItem('airsoftProfiles', JSON.stringify(profiles));
-            // Envia a lista atualizada para o WebView
-            webViewRef.current?.injectJavaScript(`window.receiveProfiles && window.receiveProfiles(${JSON.stringify(profiles)});`);
-          } catch (error) {}
-          break;
-
-        case 'loadProfile':
-        case 'loadProfiles':
-          try {
-            console.log('📥 Solicitação de carregar perfis recebida');
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            console.log('📄 JSON do AsyncStorage:', profilesJson);
-            const profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            console.log('📋 Perfis parseados:', profiles);
-            webViewRef.current?.injectJavaScript(`
-              console.log('🔄 Injetando perfis no WebView...');
-              if (window.receiveProfiles) {
-                window.receiveProfiles(${JSON.stringify(profiles)});
-              } else {
-                console.error('❌ window.receiveProfiles não existe!');
-              }
-            `);
-            console.log('📂 Perfis carregados e enviados ao WebView:', profiles.length);
-          } catch (error) {
-            Alert.alert('❌ Erro', 'Falha ao carregar perfis');
-            console.error('Erro ao carregar perfis:', error);
-          }
-          break;
-
-        case 'deleteProfile':
-          try {
-            console.log('🗑️ Solicitação de deletar perfil ID:', data.id);
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            let profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            console.log('📋 Perfis antes de deletar:', profiles.length);
-            profiles = profiles.filter((p: any) => p.id !== data.id);
-            console.log('📋 Perfis após deletar:', profiles.length);
-            await AsyncStorage.setItem('airsoftProfiles', JSON.stringify(profiles));
-            // Envia a lista atualizada para o WebView
-            webViewRef.current?.injectJavaScript(`window.receiveProfiles && window.receiveProfiles(${JSON.stringify(profiles)});`);
-          } catch (error) {}
-          break;
-
-        case 'saveAllProfiles':
-          try {
-            await AsyncStorage.setItem('airsoftProfiles', JSON.stringify(data.profiles));
-            console.log('💾 Todos os perfis salvos (total:', data.profiles.length, ')');
-          } catch (error) {
-            console.error('Erro ao salvar perfis:', error);
-          }
-          break;
-
-        case 'takePhoto':
-          console.log('📷 Captura de foto solicitada');
-          break;
-
-        case 'saveState':
-          try {
-            await AsyncStorage.setItem('airsoftState', JSON.stringify(data.state));
-            console.log('💾 Estado auto-salvo');
-          } catch (error) {
-            console.error('Erro ao salvar estado:', error);
-          }
-          break;
-
-        case 'loadState':
-          try {
-            const stateJson = await AsyncStorage.getItem('airsoftState');
-            const state = stateJson ? JSON.parse(stateJson) : null;
-            if (state && webViewRef.current) {
-              webViewRef.current.injectJavaScript(`
-                if (window.applyState) {
-                  window.applyState(${JSON.stringify(state)});
-                }
-              `);
-              console.log('📂 Estado restaurado');
-            }
-          } catch (error) {
-            console.error('Erro ao carregar estado:', error);
-          }
-          break;
-
-        case 'stateChanged':
-          console.log('Estado atualizado:', data.state);
-          break;
-
-        case 'ready':
-        case 'webview_ready':
-          console.log('✅ WebView pronto:', data.message || 'Carregado');
-          try {
-            const profilesJson = await AsyncStorage.getItem('airsoftProfiles');
-            const profiles = profilesJson ? JSON.parse(profilesJson) : [];
-            console.log('📋 Perfis no AsyncStorage:', profiles.length);
-            
-            // Aguarda um pouco para garantir que o HTML está pronto
-            setTimeout(() => {
-              const jsCode = `
-                try {
-                  console.log('⏱️ Executando receiveProfiles com', ${profiles.length}, 'perfis');
-                  if (typeof window.receiveProfiles === 'function') {
-                    window.receiveProfiles(${JSON.stringify(profiles)});
-                  } else {
-                    console.error('❌ window.receiveProfiles não é uma função');
-                  }
-                } catch(e) {
-                  console.error('❌ Erro ao chamar receiveProfiles:', e);
-                }
-                true;
-              `;
-              webViewRef.current?.injectJavaScript(jsCode);
-              console.log('📤 Perfis injetados no WebView');
-            }, 500);
-          } catch (error) {
-            console.error('Erro ao enviar perfis após webview_ready:', error);
-          }
-          break;
-
-        case 'dpad':
-          console.log('🎮 D-Pad pressionado:', data.direction);
-          break;
-
-        case 'calibrate':
-        case 'tare':
-          console.log('🎯 Calibração/Tara solicitada');
-          break;
-
-        default:
-          console.log('❓ Mensagem não reconhecida:', data);
-      }
+      const bundle = readImportLink(data);
+      if (bundle) await offerImport(bundle);
     } catch (error) {
-      console.error('Erro ao processar mensagem:', error);
+      postToOverlay(webViewRef, { type: 'error', reason: String(error) });
     }
   };
 
+  const handleWebViewMessage = createOverlayDispatcher(webViewRef, {
+    hideNavigationBar: () => {
+      // Esconde a barra de navegação do Android quando solicitado
+      if (NavigationBar.setVisibilityAsync) {
+        NavigationBar.setVisibilityAsync('hidden');
+        console.log('🎮 Barra de navegação ocultada via WebView');
+      }
+    },
+
+    zoom: ({ value }) => {
+      // Converte 0-1 do slider para 0-1 da câmera
+      const zoomValue = Math.max(0, Math.min(1, value));
+      setZoom(zoomValue);
+      const magnification = magnificationAt(zoomCurveRef.current, zoomValue);
+      console.log(`🔍 Zoom ajustado: ${magnification.toFixed(1)}x (normalizado: ${zoomValue.toFixed(2)})`);
+    },
+
+    saveProfile: async ({ profile }) => {
+      // Qualquer formato recebido passa pela migração/validação do repositório
+      const profiles = await saveProfile(profile);
+      return { type: 'profiles', profiles };
+    },
+
+    loadProfiles: async () => {
+      try {
+        console.log('📥 Solicitação de carregar perfis recebida');
+        const profiles = await loadProfiles();
+        console.log('📂 Perfis carregados e enviados ao WebView:', profiles.length);
+        return { type: 'profiles', profiles };
+      } catch (error) {
+        Alert.alert('❌ Erro', 'Falha ao carregar perfis');
+        throw error;
+      }
+    },
+
+    deleteProfile: async ({ id }) => {
+      console.log('🗑️ Solicitação de deletar perfil ID:', id);
+      const profiles = await deleteProfile(id);
+      // Envia a lista atualizada para o WebView
+      return { type: 'profiles', profiles };
+    },
+
+    saveAllProfiles: async ({ profiles }) => {
+      const saved = await replaceProfiles(profiles);
+      console.log('💾 Todos os perfis salvos (total:', saved.length, ')');
+    },
+
+    takePhoto: async ({ reticle, pitch, roll }) => {
+      console.log('📷 Captura de foto solicitada');
+      if (!cameraRef.current) throw new Error('Câmera indisponível');
+      const camera = cameraRef.current;
+      const metadata = { takenAt: new Date().toISOString(), reticle, zoom, pitch, roll, stabilityScore };
+      const asset = await captureQueue.run(() => takeSightPhoto(camera, metadata));
+      return { type: 'photoSaved', assetId: asset.id, uri: asset.uri };
+    },
+
+    saveState: async ({ state }) => {
+      await AsyncStorage.setItem('airsoftState', JSON.stringify(state));
+      console.log('💾 Estado auto-salvo');
+    },
+
+    loadState: async () => {
+      const stateJson = await AsyncStorage.getItem('airsoftState');
+      const state = stateJson ? JSON.parse(stateJson) : null;
+      console.log('📂 Estado restaurado');
+      return { type: 'state', state };
+    },
+
+    ready: async ({ message }) => {
+      console.log('✅ WebView pronto:', message || 'Carregado');
+      const profiles = await loadProfiles();
+      console.log('📋 Perfis no AsyncStorage:', profiles.length);
+      // Faixas calibradas pelo usuário, ou as padrão do algoritmo
+      const thresholdsJson = await AsyncStorage.getItem('airsoftStabilityThresholds');
+      const thresholds = thresholdsJson ? JSON.parse(thresholdsJson) : STABILITY_CONFIG.thresholds;
+      const tareJson = await AsyncStorage.getItem('airsoftTare');
+      if (tareJson) tareRef.current = userTareRef.current = JSON.parse(tareJson);
+      const fireAssistJson = await AsyncStorage.getItem('airsoftFireAssist');
+      if (fireAssistJson) fireAssistRef.current = { ...DEFAULT_FIRE_ASSIST, ...JSON.parse(fireAssistJson) };
+      const reticles = await loadCustomReticles();
+      const weapons = await loadWeapons();
+      const zoomCurveJson = await AsyncStorage.getItem('airsoftZoomCurve');
+      if (zoomCurveJson) zoomCurveRef.current = normalizeZoomCurve(JSON.parse(zoomCurveJson));
+      const fovJson = await AsyncStorage.getItem('airsoftFov');
+      if (fovJson) fovRef.current = JSON.parse(fovJson);
+      // Sessão deixada aberta continua de onde parou
+      sessionRef.current = await findOpenSession();
+
+      // Aguarda um pouco para garantir que o HTML está pronto
+      setTimeout(() => {
+        postToOverlay(webViewRef, { type: 'stabilityThresholds', thresholds });
+        postToOverlay(webViewRef, { type: 'fireAssistSettings', settings: fireAssistRef.current });
+        postToOverlay(webViewRef, { type: 'tareState', tare: tareRef.current });
+        postToOverlay(webViewRef, { type: 'reticles', reticles });
+        postToOverlay(webViewRef, { type: 'weapons', weapons });
+        postToOverlay(webViewRef, { type: 'zoomCurve', curve: zoomCurveRef.current });
+        postToOverlay(webViewRef, { type: 'fov', fov: fovRef.current });
+        postToOverlay(webViewRef, { type: 'session', session: sessionRef.current });
+        overlayReadyRef.current = true;
+        if (pendingImportRef.current) offerImport(pendingImportRef.current);
+        postToOverlay(webViewRef, { type: 'profiles', profiles });
+        console.log('📤 Perfis injetados no WebView');
+      }, 500);
+    },
+
+    calibrateStability: async ({ rest, freehand, profileId }) => {
+      const thresholds = deriveThresholds(rest, freehand);
+      console.log('📊 Faixas de estabilidade calibradas:', thresholds);
+
+      if (profileId !== undefined) {
+        // Calibração vinculada ao perfil ativo (ex.: rifle no bipé vs pistola)
+        const updated = await updateProfile(profileId, (p) => ({ ...p, stabilityThresholds: thresholds }));
+        postToOverlay(webViewRef, { type: 'profiles', profiles: updated });
+      } else {
+        await AsyncStorage.setItem('airsoftStabilityThresholds', JSON.stringify(thresholds));
+      }
+
+      return { type: 'stabilityThresholds', thresholds };
+    },
+
+    fireAssist: async ({ settings }) => {
+      fireAssistRef.current = settings;
+      await AsyncStorage.setItem('airsoftFireAssist', JSON.stringify(settings));
+      console.log('🔔 Assistente de disparo:', settings);
+    },
+
+    startRecording: async () => {
+      await recording.start();
+      return { type: 'recordingStarted' };
+    },
+
+    stopRecording: async () => {
+      const result = await recording.stop();
+      return { type: 'recordingSaved', ...result };
+    },
+
+    tare: async () => {
+      // A posição atual vira o zero de pitch/roll
+      const tare = { ...rawAttitudeRef.current };
+      tareRef.current = userTareRef.current = tare;
+      await AsyncStorage.setItem('airsoftTare', JSON.stringify(tare));
+      console.log('🎯 Tara aplicada:', tare);
+      return { type: 'tareState', tare };
+    },
+
+    resetTare: async () => {
+      tareRef.current = userTareRef.current = ZERO_TARE;
+      await AsyncStorage.removeItem('airsoftTare');
+      console.log('🎯 Tara removida');
+      return { type: 'tareState', tare: ZERO_TARE };
+    },
+
+    setTare: ({ tare }) => {
+      // Tara vinda de um perfil carregado: só em memória, a do usuário continua gravada
+      tareRef.current = tare ?? userTareRef.current;
+      console.log(tare ? '🎯 Tara do perfil aplicada:' : '🎯 Tara do usuário restaurada:', tareRef.current);
+      return { type: 'tareState', tare: tareRef.current };
+    },
+
+    autoContrast: ({ enabled }) => {
+      sceneSampler.setEnabled(enabled);
+      console.log(`🌗 Contraste automático ${enabled ? 'ligado' : 'desligado'}`);
+    },
+
+    sceneRegion: ({ region }) => sceneSampler.setRegion(region),
+
+    setZoomCurve: async ({ curve }) => {
+      // Curva do aparelho: fica no AsyncStorage, não nos perfis
+      zoomCurveRef.current = normalizeZoomCurve(curve);
+      await AsyncStorage.setItem('airsoftZoomCurve', JSON.stringify(zoomCurveRef.current));
+      console.log('🔭 Curva de zoom calibrada:', zoomCurveRef.current);
+      return { type: 'zoomCurve', curve: zoomCurveRef.current };
+    },
+
+    calibrateFov: async ({ measurement }) => {
+      const calibration = deriveFovCalibration(measurement);
+      fovRef.current = { ...fovRef.current, [measurement.orientation]: calibration };
+      await AsyncStorage.setItem('airsoftFov', JSON.stringify(fovRef.current));
+      console.log(`📏 Campo de visão (${measurement.orientation}): ${calibration.pxPerMil.toFixed(2)} px/mil`);
+      return { type: 'fov', fov: fovRef.current };
+    },
+
+    haptic: ({ style }) => {
+      if (style === 'selection') Haptics.selectionAsync();
+      else Haptics.impactAsync(style === 'medium' ? Haptics.ImpactFeedbackStyle.Medium : Haptics.ImpactFeedbackStyle.Light);
+    },
+
+    solveTrajectory: ({ params, maxDistance }) => {
+      // Erros do solver (ex.: BB não alcança o zero) voltam como 'error' para o Bridge.request
+      const trajectory = solveTrajectory(params, maxDistance);
+      console.log(`🪂 Trajetória: ${params.mass} g a ${trajectory.muzzleVelocity.toFixed(1)} m/s, zero ${params.zeroDistance} m`);
+      return { type: 'trajectory', trajectory };
+    },
+
+    startSession: async ({ profileName }) => {
+      sessionRef.current = await startSession(profileName);
+      console.log('⏱️ Sessão iniciada:', sessionRef.current.id);
+      return { type: 'session', session: sessionRef.current };
+    },
+
+    endSession: async () => {
+      if (sessionRef.current) {
+        const session = await endSession(sessionRef.current.id);
+        console.log(`⏱️ Sessão encerrada: ${session.summary.shots} tiros`);
+      }
+      sessionRef.current = null;
+      return { type: 'session', session: null };
+    },
+
+    logShot: async ({ shot }) => {
+      if (!sessionRef.current) throw new Error('Nenhuma sessão em andamento');
+      const { id } = sessionRef.current;
+      const session = await appendShot(id, { ...shot, t: Date.now() });
+      // As gravações são enfileiradas: se a sessão foi encerrada ou trocada nesse meio-tempo, não a reabre
+      if (sessionRef.current?.id === id) sessionRef.current = session;
+      return { type: 'session', session: sessionRef.current };
+    },
+
+    volumeTrigger: ({ enabled }) => {
+      setVolumeTrigger(enabled);
+      console.log(`🔊 Gatilho no volume ${enabled ? 'ligado' : 'desligado'}`);
+    },
+
+    openHistory: () => {
+      router.push('/history');
+    },
+
+    exportProfiles: async ({ ids }) => {
+      const profiles = (await loadProfiles()).filter((p) => ids.includes(p.id));
+      if (profiles.length === 0) throw new Error('Nenhum perfil para exportar');
+      const file = await exportProfileBundle(await buildProfileBundle(profiles));
+      return { type: 'profilesExported', uri: file.uri };
+    },
+
+    profileQr: async ({ id }) => {
+      const profile = (await loadProfiles()).find((p) => p.id === id);
+      if (!profile) throw new Error(`Perfil não encontrado: ${id}`);
+      return { type: 'profileQr', svg: await profileQrSvg(await buildProfileBundle([profile])) };
+    },
+
+    importProfiles: async () => {
+      const bundle = await pickProfileFile();
+      if (!bundle) return { type: 'profileImport', profiles: [], reticles: 0 };
+      const existing = await loadProfiles();
+      pendingImportRef.current = bundle;
+      return {
+        type: 'profileImport',
+        profiles: bundle.profiles.map((p) => ({ name: p.name, conflict: findConflict(existing, p) !== null })),
+        reticles: bundle.reticles.length,
+      };
+    },
+
+    scanQr: ({ enabled }) => {
+      setScanningQr(enabled);
+      console.log(`📷 Leitura de QR ${enabled ? 'ligada' : 'desligada'}`);
+    },
+
+    resolveImport: async ({ decisions }) => {
+      const bundle = pendingImportRef.current;
+      pendingImportRef.current = null;
+      if (!bundle || decisions.every((d) => d === 'skip')) return { type: 'profilesImported', imported: 0 };
+      const { profiles, imported } = await applyProfileImport(bundle, decisions);
+      console.log(`📥 ${imported} perfil(is) importado(s)`);
+      postToOverlay(webViewRef, { type: 'reticles', reticles: await loadCustomReticles() });
+      postToOverlay(webViewRef, { type: 'profiles', profiles });
+      return { type: 'profilesImported', imported };
+    },
+
+    loadWeapons: async () => ({ type: 'weapons', weapons: await loadWeapons() }),
+
+    saveWeapon: async ({ weapon }) => {
+      const weapons = await saveWeapon(weapon);
+      console.log('🔫 Arma salva:', weapon.name);
+      return { type: 'weapons', weapons };
+    },
+
+    deleteWeapon: async ({ id }) => {
+      const weapons = await deleteWeapon(id);
+      // Perfis da arma excluída continuam existindo, sem arma
+      const profiles = await loadProfiles();
+      if (profiles.some((p) => p.weaponId === id)) {
+        const updated = await replaceProfiles(profiles.map((p) => (p.weaponId === id ? { ...p, weaponId: null } : p)));
+        postToOverlay(webViewRef, { type: 'profiles', profiles: updated });
+      }
+      console.log('🗑️ Arma removida:', id);
+      return { type: 'weapons', weapons };
+    },
+
+    captureWeaponPhoto: async ({ id }) => {
+      if (!cameraRef.current) throw new Error('Câmera indisponível');
+      const camera = cameraRef.current;
+      return { type: 'weapons', weapons: await captureQueue.run(() => setWeaponPhoto(id, camera)) };
+    },
+
+    loadWeaponPhoto: async ({ id }) => {
+      const weapon = (await loadWeapons()).find((w) => w.id === id);
+      return { type: 'weaponPhoto', weaponId: id, dataUri: weapon ? await weaponPhotoDataUri(weapon) : null };
+    },
+
+    loadReticles: async () => ({ type: 'reticles', reticles: await loadCustomReticles() }),
+
+    saveReticle: async ({ reticle }) => {
+      const reticles = await saveCustomReticle(reticle);
+      console.log('✏️ Retículo salvo:', reticle.name);
+      return { type: 'reticles', reticles };
+    },
+
+    deleteReticle: async ({ id }) => {
+      const reticles = await deleteCustomReticle(id);
+      console.log('🗑️ Retículo removido:', id);
+      return { type: 'reticles', reticles };
+    },
+
+    exportReticle: async ({ reticle }) => {
+      const file = await exportReticle(reticle);
+      return { type: 'reticleExported', uri: file.uri };
+    },
+
+    importReticle: async () => {
+      const picked = await pickReticleFile();
+      if (!picked) return { type: 'reticleImported', reticle: null };
+      const reticle = await addImportedReticle(picked);
+      console.log('📥 Retículo importado:', reticle.name);
+      // A biblioteca do overlay é atualizada antes da resposta ser resolvida
+      postToOverlay(webViewRef, { type: 'reticles', reticles: await loadCustomReticles() });
+      return { type: 'reticleImported', reticle };
+    },
+  });
+
   // Se o HTML ainda não foi carregado, mostra loading
   if (!htmlContent) {
     return (
@@ -362,6 +599,10 @@ export default function CameraScreen() {
         style={styles.camera} 
         facing={facing}
         zoom={zoom}
+        mode={recording.cameraMode}
+        onCameraReady={recording.onCameraReady}
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={scanningQr ? handleBarcodeScanned : undefined}
       />
       
       {/* Wrapper para WebView com transparência forçada no Android */}
@@ -384,6 +625,8 @@ export default function CameraScreen() {
           mediaPlaybackRequiresUserAction={false}
           // Propriedades para transparência no Android
           androidLayerType="hardware"
+          // Biblioteca de retículos disponível antes dos scripts do overlay rodarem
+          injectedJavaScriptBeforeContentLoaded={OVERLAY_SCRIPT}
           // Injeta CSS adicional para garantir transparência
           injectedJavaScript={`
             document.body.style.background = 'transparent';
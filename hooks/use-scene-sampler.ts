@@ -0,0 +1,68 @@
+import type { CameraView } from 'expo-camera';
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { Dimensions } from 'react-native';
+
+import type { CaptureQueue } from '@/lib/capture/queue';
+import { Rgb, sampleSceneColor, SceneRegion } from '@/lib/capture/scene';
+import type { Attitude } from '@/lib/orientation/fusion';
+
+// Um quadro a cada 2 s basta para acompanhar mudanças de luz sem pesar na câmera
+const SAMPLE_INTERVAL_MS = 2000;
+
+/**
+ * Amostragem periódica da cor da cena atrás da mira, para o modo de contraste automático.
+ * Fica parada enquanto `paused` (ex.: gravando vídeo, quando a câmera não tira fotos) e cede
+ * a vez quando a fila de capturas já está ocupada com uma foto do usuário.
+ * `attitudeRef` é a atitude bruta (sem tara), usada para alinhar a foto com a tela.
+ */
+export function useSceneSampler(
+  cameraRef: RefObject<CameraView | null>,
+  paused: boolean,
+  queue: CaptureQueue,
+  attitudeRef: RefObject<Attitude>,
+  onColor: (rgb: Rgb) => void
+) {
+  const [enabled, setEnabled] = useState(false);
+  const onColorRef = useRef(onColor);
+  // Região vem do overlay a cada movimento da mira; até lá, o centro da tela
+  const regionRef = useRef<SceneRegion>({ x: 0, y: 0, radius: 40 });
+
+  useEffect(() => {
+    onColorRef.current = onColor;
+  }, [onColor]);
+
+  useEffect(() => {
+    if (!enabled || paused) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Encadeia por setTimeout para nunca sobrepor duas amostras
+    const tick = async () => {
+      try {
+        const camera = cameraRef.current;
+        const rgb =
+          camera && !queue.busy
+            ? await queue.run(() =>
+                sampleSceneColor(camera, regionRef.current, Dimensions.get('window'), attitudeRef.current.roll)
+              )
+            : null;
+        if (rgb && !cancelled) onColorRef.current(rgb);
+      } catch (error) {
+        console.warn('⚠️ Falha ao amostrar a cena:', error);
+      }
+      if (!cancelled) timer = setTimeout(tick, SAMPLE_INTERVAL_MS);
+    };
+    timer = setTimeout(tick, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, paused, cameraRef, queue, attitudeRef]);
+
+  const setRegion = (region: SceneRegion) => {
+    regionRef.current = region;
+  };
+
+  return { enabled, setEnabled, setRegion };
+}
@@ -0,0 +1,40 @@
+import * as ScreenOrientation from 'expo-screen-orientation';
+import { useEffect, useRef } from 'react';
+
+import type { ScreenOrientationKind } from '@/lib/orientation/fusion';
+
+function toKind(orientation: ScreenOrientation.Orientation): ScreenOrientationKind {
+  switch (orientation) {
+    case ScreenOrientation.Orientation.PORTRAIT_DOWN:
+      return 'portrait-down';
+    case ScreenOrientation.Orientation.LANDSCAPE_LEFT:
+      return 'landscape-left';
+    case ScreenOrientation.Orientation.LANDSCAPE_RIGHT:
+      return 'landscape-right';
+    default:
+      return 'portrait-up';
+  }
+}
+
+/**
+ * Orientação real da interface (expo-screen-orientation), em ref para ser lida
+ * dentro de listeners de sensor sem reinscrevê-los a cada rotação.
+ */
+export function useScreenOrientation() {
+  const orientationRef = useRef<ScreenOrientationKind>('portrait-up');
+
+  useEffect(() => {
+    ScreenOrientation.getOrientationAsync().then((orientation) => {
+      orientationRef.current = toKind(orientation);
+    });
+
+    const subscription = ScreenOrientation.addOrientationChangeListener((event) => {
+      orientationRef.current = toKind(event.orientationInfo.orientation);
+      console.log('🔄 Orientação da interface:', orientationRef.current);
+    });
+
+    return () => ScreenOrientation.removeOrientationChangeListener(subscription);
+  }, []);
+
+  return orientationRef;
+}
@@ -0,0 +1,123 @@
+import { CameraMode, CameraView, useMicrophonePermissions } from 'expo-camera';
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+
+import { saveToSightAlbum } from '@/lib/capture/media';
+import { createTelemetryTrack, TelemetrySample, TelemetryTrack } from '@/lib/capture/telemetry';
+
+export interface RecordingResult {
+  assetId: string;
+  videoUri: string;
+  telemetryUri: string;
+  samples: number;
+}
+
+// O Android religa a câmera ao trocar de modo e avisa com onCameraReady; no iOS o modo é aplicado
+// na fila da sessão antes do recordAsync, então dá para gravar assim que o modo muda
+const WAITS_FOR_VIDEO_READY = Platform.OS === 'android';
+
+// Sem a câmera pronta nesse prazo o pedido é abandonado e ela volta para fotos
+const START_TIMEOUT_MS = 5000;
+
+/**
+ * Gravação de vídeo da mira com trilha de telemetria sincronizada.
+ * A câmera alterna para o modo 'video' só enquanto grava e volta para 'picture' no fim.
+ * `onFailed` avisa quando a gravação termina sozinha com erro (sem ninguém chamar `stop`).
+ */
+export function useSightRecording(cameraRef: RefObject<CameraView | null>, onFailed: (reason: string) => void) {
+  const [cameraMode, setCameraMode] = useState<CameraMode>('picture');
+  const [readyMode, setReadyMode] = useState<CameraMode | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [micPermission, requestMicPermission] = useMicrophonePermissions();
+  const trackRef = useRef<TelemetryTrack | null>(null);
+  const pendingStartRef = useRef<(() => void) | null>(null);
+  const finishedRef = useRef<Promise<RecordingResult> | null>(null);
+  const onFailedRef = useRef(onFailed);
+
+  useEffect(() => {
+    onFailedRef.current = onFailed;
+  }, [onFailed]);
+
+  // Só inicia o recordAsync depois que a câmera já está pronta no modo de vídeo
+  useEffect(() => {
+    const started = pendingStartRef.current;
+    const camera = cameraRef.current;
+    if (cameraMode !== 'video' || !started || !camera) return;
+    if (WAITS_FOR_VIDEO_READY && readyMode !== 'video') return;
+    pendingStartRef.current = null;
+
+    const finished = camera.recordAsync();
+    // O relógio da telemetria parte junto com a gravação, não com o pedido
+    const track = createTelemetryTrack();
+    trackRef.current = track;
+    setIsRecording(true);
+    started();
+    console.log('🎬 Gravação iniciada');
+
+    const result = finished
+      .then(async (video) => {
+        if (!video) throw new Error('Gravação terminou sem arquivo');
+        const asset = await saveToSightAlbum(video.uri);
+        const telemetry = track.save();
+        return { assetId: asset.id, videoUri: asset.uri, telemetryUri: telemetry.uri, samples: track.samples.length };
+      })
+      .finally(() => {
+        trackRef.current = null;
+        setIsRecording(false);
+        setReadyMode(null);
+        setCameraMode('picture');
+      });
+    finishedRef.current = result;
+
+    // Falha antes do stop(): ninguém espera o resultado, então o overlay é avisado aqui
+    result.catch((error) => {
+      if (finishedRef.current !== result) return; // stop() já repassa o erro a quem pediu
+      finishedRef.current = null;
+      console.error('❌ Gravação interrompida:', error);
+      onFailedRef.current(error instanceof Error ? error.message : String(error));
+    });
+  }, [cameraMode, readyMode, cameraRef]);
+
+  // Para o CameraView: marca em que modo a câmera ficou pronta
+  const onCameraReady = useCallback(() => setReadyMode(cameraMode), [cameraMode]);
+
+  // Resolve quando a gravação começa de fato
+  const start = async () => {
+    if (isRecording || pendingStartRef.current) {
+      throw new Error('Gravação já em andamento');
+    }
+    if (!micPermission?.granted) {
+      const response = await requestMicPermission();
+      if (!response.granted) throw new Error('Permissão do microfone negada');
+    }
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingStartRef.current = null;
+        setCameraMode('picture');
+        reject(new Error('Câmera não ficou pronta para gravar'));
+      }, START_TIMEOUT_MS);
+      pendingStartRef.current = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      setCameraMode('video');
+    });
+  };
+
+  const stop = async () => {
+    const finished = finishedRef.current;
+    if (!finished) throw new Error('Nenhuma gravação em andamento');
+    cameraRef.current?.stopRecording();
+    finishedRef.current = null;
+    const result = await finished;
+    console.log('🎬 Gravação salva:', result);
+    return result;
+  };
+
+  // Chamado pelo listener do DeviceMotion a cada leitura; ignora se não estiver gravando
+  const pushSample = useCallback((sample: Omit<TelemetrySample, 't'>) => {
+    trackRef.current?.push(sample);
+  }, []);
+
+  return { cameraMode, isRecording, start, stop, pushSample, onCameraReady };
+}
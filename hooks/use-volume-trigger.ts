@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { VolumeManager } from 'react-native-volume-manager';
+
+/**
+ * Botões de volume como gatilho. Cada mudança de volume vira um disparo e o volume volta ao nível
+ * anterior, para que toques seguidos continuem gerando eventos; o painel de volume do sistema fica oculto.
+ * Ao desligar, o volume que o usuário tinha antes é devolvido.
+ */
+export function useVolumeTrigger(enabled: boolean, onPress: () => void) {
+  const onPressRef = useRef(onPress);
+
+  useEffect(() => {
+    onPressRef.current = onPress;
+  }, [onPress]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let base: number | null = null;
+    let original: number | null = null; // volume do usuário, devolvido ao sair
+    let active = true;
+
+    VolumeManager.showNativeVolumeUI({ enabled: false });
+    VolumeManager.getVolume().then(async ({ volume }) => {
+      if (!active) return;
+      original = volume;
+      // Nos extremos um dos botões não gera evento; começa do meio da escala
+      base = volume <= 0.05 || volume >= 0.95 ? 0.5 : volume;
+      if (base !== volume) await VolumeManager.setVolume(base);
+    });
+
+    const subscription = VolumeManager.addVolumeListener(({ volume }) => {
+      // O evento da própria restauração chega com o volume base e é ignorado
+      if (base === null || Math.abs(volume - base) < 0.001) return;
+      VolumeManager.setVolume(base);
+      onPressRef.current();
+    });
+
+    return () => {
+      active = false;
+      subscription.remove();
+      if (original !== null) VolumeManager.setVolume(original);
+      VolumeManager.showNativeVolumeUI({ enabled: true });
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,106 @@
+import {
+  BallisticParams,
+  FPS_TO_MS,
+  joulesOf,
+  muzzleVelocityOf,
+  solveTrajectory,
+  validateBallisticParams,
+} from '@/lib/ballistics/bb';
+
+// AEG padrão de campo: 350 FPS com 0,20 g, mira 5 cm acima do cano, zero aos 30 m
+const AEG: BallisticParams = { mass: 0.2, velocity: { fps: 350 }, hop: 1, sightHeight: 0.05, zeroDistance: 30 };
+
+const heightAt = (params: BallisticParams, distance: number) =>
+  solveTrajectory(params, 80, 10).points.find((p) => p.distance === distance)!.height;
+
+describe('conversões de cronógrafo', () => {
+  it.each([
+    // peso (g), FPS, joules da tabela de cronógrafo
+    [0.2, 328, 1.0],
+    [0.2, 350, 1.14],
+    [0.2, 400, 1.49],
+    [0.2, 500, 2.32],
+    [0.25, 313, 1.14],
+    [0.28, 350, 1.59],
+  ])('%d g a %d FPS = %d J', (mass, fps, joules) => {
+    expect(joulesOf(mass, fps * FPS_TO_MS)).toBeCloseTo(joules, 2);
+  });
+
+  it('FPS medido com 0,20 g vira a velocidade da BB do perfil mantendo a energia', () => {
+    const v = muzzleVelocityOf(0.25, { fps: 350, ratedMass: 0.2 });
+    expect(v / FPS_TO_MS).toBeCloseTo(313, 0);
+    expect(joulesOf(0.25, v)).toBeCloseTo(joulesOf(0.2, 350 * FPS_TO_MS), 6);
+  });
+
+  it('joules independem do peso de referência', () => {
+    expect(muzzleVelocityOf(0.2, { joules: 1 })).toBeCloseTo(100, 6);
+  });
+});
+
+describe('validateBallisticParams', () => {
+  it('aceita os parâmetros de campo', () => {
+    expect(validateBallisticParams(AEG)).toBeNull();
+    expect(validateBallisticParams({ ...AEG, velocity: { joules: 1.2 }, dragCoefficient: 0.4 })).toBeNull();
+  });
+
+  it.each([
+    ['não objeto', null],
+    ['campo numérico ausente', { ...AEG, hop: undefined }],
+    ['fps e joules juntos', { ...AEG, velocity: { fps: 350, joules: 1.1 } }],
+    ['ratedMass fora da faixa', { ...AEG, velocity: { fps: 350, ratedMass: 0.12 } }],
+    ['ratedMass com joules', { ...AEG, velocity: { joules: 1.1, ratedMass: 0.2 } }],
+    ['velocity sem fps nem joules', { ...AEG, velocity: {} }],
+    ['Cd negativo', { ...AEG, dragCoefficient: -0.3 }],
+    ['BB leve demais', { ...AEG, mass: 0.12 }],
+    ['velocidade irreal', { ...AEG, velocity: { fps: 1200 } }],
+  ])('rejeita %s', (_, params) => {
+    expect(validateBallisticParams(params)).not.toBeNull();
+  });
+});
+
+describe('solveTrajectory', () => {
+  it('cruza a linha de visada na distância de zero', () => {
+    expect(heightAt(AEG, 30)).toBeCloseTo(0, 3);
+  });
+
+  it('perde velocidade como uma 0,20 g real (≈ 60 m/s aos 20 m, ≈ 1,1 s até 50 m)', () => {
+    const points = solveTrajectory(AEG, 60, 10).points;
+    expect(points.find((p) => p.distance === 20)!.velocity).toBeCloseTo(59, 0);
+    expect(points.find((p) => p.distance === 50)!.time).toBeCloseTo(1.08, 1);
+  });
+
+  // Curva fixada na calibração: reta até ~50 m, queda forte depois do alcance útil
+  it.each([
+    [10, -0.14],
+    [20, -0.11],
+    [40, 0.06],
+    [50, -0.22],
+    [60, -1.47],
+  ])('AEG 0,20 g / 350 FPS zerada aos 30 m: altura aos %d m', (distance, height) => {
+    expect(heightAt(AEG, distance)).toBeCloseTo(height, 1);
+  });
+
+  it('com hop ajustado fica dentro de ±25 cm até 50 m', () => {
+    const points = solveTrajectory(AEG, 50, 5).points;
+    expect(Math.max(...points.map((p) => Math.abs(p.height)))).toBeLessThan(0.25);
+  });
+
+  it('sem hop a BB despenca', () => {
+    expect(heightAt({ ...AEG, hop: 0, zeroDistance: 20 }, 40)).toBeLessThan(-1);
+  });
+
+  it('BB mais pesada com a mesma energia chega com mais energia', () => {
+    const heavy = { ...AEG, mass: 0.25, velocity: { fps: 350, ratedMass: 0.2 } };
+    const energyAt50 = (p: BallisticParams) => solveTrajectory(p, 50, 50).points[0].energy;
+    expect(energyAt50(heavy)).toBeGreaterThan(energyAt50(AEG));
+  });
+
+  it('sniper 0,40 g / 500 FPS (0,20 g) ainda sustenta a BB aos 80 m', () => {
+    const sniper = { ...AEG, mass: 0.4, velocity: { fps: 500, ratedMass: 0.2 }, zeroDistance: 50 };
+    expect(Math.abs(heightAt(sniper, 80))).toBeLessThan(0.4);
+  });
+
+  it('recusa zero que a BB não alcança', () => {
+    expect(() => solveTrajectory({ ...AEG, hop: 0, velocity: { fps: 150 }, zeroDistance: 100 })).toThrow(/não alcança/);
+  });
+});
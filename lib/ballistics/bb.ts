@@ -0,0 +1,252 @@
+/**
+ * Trajetória de BB de 6 mm: arrasto quadrático + sustentação Magnus do backspin do hop-up.
+ * Matemática pura (sem React Native), integrada por RK4 no plano vertical.
+ *
+ * Referencial: x ao longo da linha de visada, y para cima; a linha de visada é y = 0
+ * e o cano fica `sightHeight` abaixo dela.
+ */
+
+import { Fields, isFiniteNumber, isObject } from '@/lib/common/guards';
+
+export const BB_DIAMETER = 0.00595; // m
+export const GRAVITY = 9.80665; // m/s²
+export const AIR_DENSITY = 1.225; // kg/m³ (nível do mar, 15 °C)
+export const FPS_TO_MS = 0.3048;
+
+// Pesos comerciais de BB cobertos pelo modelo
+export const BB_MASS_RANGE = { min: 0.2, max: 0.48 }; // g
+
+export type MuzzleVelocity =
+  | { fps: number; ratedMass?: number } // cronógrafo em FPS; ratedMass = peso da BB usada na medida (g)
+  | { joules: number };
+
+export interface BallisticParams {
+  mass: number; // g
+  velocity: MuzzleVelocity;
+  hop: number; // 1 = hop ajustado para voo reto (ver HOP_REFERENCE_SPEED); 0 = sem hop
+  sightHeight: number; // m, centro da mira acima do eixo do cano
+  zeroDistance: number; // m, distância em que a trajetória cruza a linha de visada
+  dragCoefficient?: number;
+  spinDecay?: number; // constante de tempo do backspin (s)
+}
+
+export interface TrajectoryPoint {
+  distance: number; // m
+  height: number; // m em relação à linha de visada (negativo = abaixo)
+  angleMil: number; // mesmo valor em miliradianos vistos da mira
+  velocity: number; // m/s
+  time: number; // s
+  energy: number; // J
+}
+
+export interface Trajectory {
+  params: BallisticParams;
+  muzzleVelocity: number; // m/s
+  muzzleEnergy: number; // J
+  launchAngle: number; // mrad acima da linha de visada
+  points: TrajectoryPoint[];
+}
+
+/**
+ * Calibração (lib/ballistics/__tests__/bb.test.ts fixa os resultados):
+ * - Cd 0,35: esfera lisa com backspin em Re ~ 2-4×10⁴; 0,20 g a 350 FPS chega a ~60 m/s aos 20 m;
+ * - o backspin de uma BB de 6 mm perde pouco em 1-2 s de voo (constante de tempo de 5 s);
+ * - a sustentação Magnus cai com a velocidade (F ∝ v·ω), então um hop "reto" sustenta bem mais
+ *   que o peso na saída: com hop 1 a sustentação iguala o peso quando a BB cai a 40% da velocidade.
+ */
+export const DEFAULT_DRAG_COEFFICIENT = 0.35;
+export const DEFAULT_SPIN_DECAY = 5;
+export const HOP_REFERENCE_SPEED = 0.4;
+
+const AREA = Math.PI * (BB_DIAMETER / 2) ** 2;
+const RADIUS = BB_DIAMETER / 2;
+
+export function joulesOf(massGrams: number, velocity: number) {
+  return 0.5 * (massGrams / 1000) * velocity ** 2;
+}
+
+/**
+ * Velocidade de saída em m/s para a BB do perfil. FPS medido com outra BB é convertido
+ * mantendo a energia (aproximação usual para AEG com a mesma mola).
+ */
+export function muzzleVelocityOf(massGrams: number, velocity: MuzzleVelocity) {
+  if ('joules' in velocity) return Math.sqrt((2 * velocity.joules) / (massGrams / 1000));
+  const measured = velocity.fps * FPS_TO_MS;
+  const ratedMass = velocity.ratedMass ?? massGrams;
+  return measured * Math.sqrt(ratedMass / massGrams);
+}
+
+const isBbMass = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= BB_MASS_RANGE.min && value <= BB_MASS_RANGE.max;
+
+function validateMuzzleVelocity(value: unknown): string | null {
+  if (!isObject(value)) return 'velocity deve ser objeto';
+  if ('fps' in value && 'joules' in value) return 'velocity deve ter fps ou joules, não os dois';
+  if ('joules' in value) {
+    if (!isFiniteNumber(value.joules) || value.joules <= 0) return 'joules deve ser número positivo';
+    return 'ratedMass' in value ? 'ratedMass só vale com fps' : null;
+  }
+  if (!isFiniteNumber(value.fps) || value.fps <= 0) return 'velocity deve ter fps ou joules';
+  if (value.ratedMass !== undefined && !isBbMass(value.ratedMass)) {
+    return `ratedMass deve estar entre ${BB_MASS_RANGE.min} e ${BB_MASS_RANGE.max} g`;
+  }
+  return null;
+}
+
+/** Motivo da rejeição, ou null se `value` são parâmetros válidos (serve para dados vindos do overlay). */
+export function validateBallisticParams(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return 'params deve ser objeto';
+  const fields = value as Fields;
+  if (![fields.mass, fields.hop, fields.sightHeight, fields.zeroDistance].every(isFiniteNumber)) {
+    return 'mass/hop/sightHeight/zeroDistance devem ser números';
+  }
+  for (const key of ['dragCoefficient', 'spinDecay']) {
+    const coefficient = fields[key];
+    if (coefficient !== undefined && !(isFiniteNumber(coefficient) && coefficient > 0)) {
+      return `${key} deve ser número positivo`;
+    }
+  }
+  const velocityError = validateMuzzleVelocity(fields.velocity);
+  if (velocityError) return velocityError;
+
+  // Daqui em diante os tipos já foram conferidos
+  const p = value as BallisticParams;
+  if (!isBbMass(p.mass)) {
+    return `peso da BB deve estar entre ${BB_MASS_RANGE.min} e ${BB_MASS_RANGE.max} g`;
+  }
+  const v = muzzleVelocityOf(p.mass, p.velocity);
+  if (!(v > 10 && v < 250)) return 'velocidade de saída fora do intervalo (10-250 m/s)';
+  if (!(p.hop >= 0 && p.hop <= 3)) return 'hop deve estar entre 0 e 3';
+  if (!(p.sightHeight >= 0 && p.sightHeight <= 0.3)) return 'altura da mira deve estar entre 0 e 30 cm';
+  if (!(p.zeroDistance > 0 && p.zeroDistance <= 150)) return 'distância de zero deve estar entre 0 e 150 m';
+  return null;
+}
+
+interface FlightState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  spin: number; // rad/s
+}
+
+function derivatives(s: FlightState, massKg: number, cd: number, spinDecay: number): FlightState {
+  const v = Math.hypot(s.vx, s.vy);
+  const q = 0.5 * AIR_DENSITY * AREA * v; // × v dá a pressão dinâmica × área
+  // Coeficiente de sustentação ≈ parâmetro de spin (ωr/v), válido para os spins baixos de hop-up
+  const cl = v > 0 ? (s.spin * RADIUS) / v : 0;
+  const drag = (q * cd) / massKg;
+  const lift = (q * cl) / massKg;
+  return {
+    x: s.vx,
+    y: s.vy,
+    // Arrasto contra a velocidade; Magnus perpendicular a ela, para cima com backspin
+    vx: -drag * s.vx - lift * s.vy,
+    vy: -drag * s.vy + lift * s.vx - GRAVITY,
+    spin: -s.spin / spinDecay,
+  };
+}
+
+function rk4(s: FlightState, dt: number, massKg: number, cd: number, decay: number): FlightState {
+  const add = (a: FlightState, b: FlightState, k: number): FlightState => ({
+    x: a.x + b.x * k,
+    y: a.y + b.y * k,
+    vx: a.vx + b.vx * k,
+    vy: a.vy + b.vy * k,
+    spin: a.spin + b.spin * k,
+  });
+  const k1 = derivatives(s, massKg, cd, decay);
+  const k2 = derivatives(add(s, k1, dt / 2), massKg, cd, decay);
+  const k3 = derivatives(add(s, k2, dt / 2), massKg, cd, decay);
+  const k4 = derivatives(add(s, k3, dt), massKg, cd, decay);
+  return {
+    x: s.x + (dt / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+    y: s.y + (dt / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y),
+    vx: s.vx + (dt / 6) * (k1.vx + 2 * k2.vx + 2 * k3.vx + k4.vx),
+    vy: s.vy + (dt / 6) * (k1.vy + 2 * k2.vy + 2 * k3.vy + k4.vy),
+    spin: s.spin + (dt / 6) * (k1.spin + 2 * k2.spin + 2 * k3.spin + k4.spin),
+  };
+}
+
+const STEP = 0.0005; // s
+
+/**
+ * Voa a BB com o ângulo de saída dado (rad) e amostra a altura a cada `sampleEvery` metros.
+ * Para ao atingir `maxDistance` ou cair 5 m abaixo da linha de visada.
+ */
+function fly(p: BallisticParams, angle: number, maxDistance: number, sampleEvery: number) {
+  const massKg = p.mass / 1000;
+  const cd = p.dragCoefficient ?? DEFAULT_DRAG_COEFFICIENT;
+  const decay = p.spinDecay ?? DEFAULT_SPIN_DECAY;
+  const v0 = muzzleVelocityOf(p.mass, p.velocity);
+
+  // Backspin inicial: sustentação = hop × peso quando a BB estiver a HOP_REFERENCE_SPEED da saída
+  const cl0 = (p.hop * massKg * GRAVITY) / HOP_REFERENCE_SPEED / (0.5 * AIR_DENSITY * AREA * v0 ** 2);
+  let s: FlightState = {
+    x: 0,
+    y: -p.sightHeight,
+    vx: v0 * Math.cos(angle),
+    vy: v0 * Math.sin(angle),
+    spin: (cl0 * v0) / RADIUS,
+  };
+
+  const points: TrajectoryPoint[] = [];
+  let next = sampleEvery;
+  let t = 0;
+  while (s.x < maxDistance && s.y > -5 && t < 10) {
+    const prev = s;
+    s = rk4(s, STEP, massKg, cd, decay);
+    t += STEP;
+    while (s.x >= next && next <= maxDistance) {
+      // Interpola linearmente dentro do passo para cair exatamente na distância amostrada
+      const k = (next - prev.x) / (s.x - prev.x);
+      const height = prev.y + k * (s.y - prev.y);
+      const velocity = Math.hypot(prev.vx + k * (s.vx - prev.vx), prev.vy + k * (s.vy - prev.vy));
+      points.push({
+        distance: next,
+        height,
+        angleMil: Math.atan2(height, next) * 1000,
+        velocity,
+        time: t - STEP + k * STEP,
+        energy: joulesOf(p.mass, velocity),
+      });
+      next += sampleEvery;
+    }
+  }
+  return points;
+}
+
+function heightAt(p: BallisticParams, angle: number, distance: number) {
+  const points = fly(p, angle, distance, distance);
+  return points.length > 0 ? points[points.length - 1].height : -Infinity;
+}
+
+/**
+ * Calcula a trajetória zerada em `zeroDistance` (ângulo de saída por bisseção)
+ * e amostrada a cada `step` metros até `maxDistance`.
+ */
+export function solveTrajectory(p: BallisticParams, maxDistance = 80, step = 5): Trajectory {
+  const reason = validateBallisticParams(p);
+  if (reason) throw new Error(reason);
+
+  let low = -0.2;
+  let high = 0.2;
+  if (heightAt(p, high, p.zeroDistance) < 0) {
+    throw new Error(`BB não alcança ${p.zeroDistance} m com estes parâmetros`);
+  }
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (heightAt(p, mid, p.zeroDistance) > 0) high = mid;
+    else low = mid;
+  }
+  const angle = (low + high) / 2;
+  const v0 = muzzleVelocityOf(p.mass, p.velocity);
+
+  return {
+    params: p,
+    muzzleVelocity: v0,
+    muzzleEnergy: joulesOf(p.mass, v0),
+    launchAngle: angle * 1000,
+    points: fly(p, angle, maxDistance, step),
+  };
+}
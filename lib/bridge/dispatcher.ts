@@ -0,0 +1,81 @@
+import type { RefObject } from 'react';
+import type { WebView, WebViewMessageEvent } from 'react-native-webview';
+
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  NativeMessage,
+  NativePayload,
+  OverlayMessageOf,
+  OverlayMessageType,
+  parseOverlayMessage,
+} from '@/lib/bridge/protocol';
+
+/**
+ * Handler de uma mensagem do overlay. Se retornar um payload,
+ * ele é enviado de volta ao WebView correlacionado pelo `id` da requisição.
+ */
+export type OverlayHandler<K extends OverlayMessageType> = (
+  message: OverlayMessageOf<K>
+) => NativePayload | void | Promise<NativePayload | void>;
+
+export type OverlayHandlers = { [K in OverlayMessageType]?: OverlayHandler<K> };
+
+// Envia uma mensagem ao overlay via window.Bridge.receive (ver app/index.html)
+export function postToOverlay(
+  webViewRef: RefObject<WebView | null>,
+  payload: NativePayload,
+  replyTo?: string
+) {
+  if (!webViewRef.current) return;
+
+  const message: NativeMessage = { v: BRIDGE_PROTOCOL_VERSION, ...payload };
+  if (replyTo) message.replyTo = replyTo;
+
+  webViewRef.current.injectJavaScript(`
+    if (window.Bridge && typeof window.Bridge.receive === 'function') {
+      window.Bridge.receive(${JSON.stringify(message)});
+    }
+    true;
+  `);
+}
+
+/**
+ * Cria o `onMessage` do WebView: valida cada mensagem contra o protocolo
+ * e encaminha para o handler do tipo correspondente.
+ */
+export function createOverlayDispatcher(
+  webViewRef: RefObject<WebView | null>,
+  handlers: OverlayHandlers
+) {
+  return async (event: WebViewMessageEvent) => {
+    const result = parseOverlayMessage(event.nativeEvent.data);
+
+    if (!result.ok) {
+      console.warn('⛔ Mensagem do WebView rejeitada:', result.error);
+      if (result.id) {
+        postToOverlay(webViewRef, { type: 'error', reason: result.error }, result.id);
+      }
+      return;
+    }
+
+    const { message } = result;
+    const handler = handlers[message.type] as OverlayHandler<typeof message.type> | undefined;
+
+    if (!handler) {
+      console.log('❓ Mensagem sem handler nesta tela:', message.type);
+      return;
+    }
+
+    try {
+      const reply = await handler(message as OverlayMessageOf<typeof message.type>);
+      if (reply) {
+        postToOverlay(webViewRef, reply, message.id);
+      }
+    } catch (error) {
+      console.error(`Erro ao processar mensagem "${message.type}":`, error);
+      if (message.id) {
+        postToOverlay(webViewRef, { type: 'error', reason: String(error) }, message.id);
+      }
+    }
+  };
+}
@@ -0,0 +1,16 @@
+import { ZOOM_CURVE_SCRIPT } from '@/lib/optics/zoom';
+import { PROFILE_SCHEMA_SCRIPT } from '@/lib/profiles/schema';
+import { RETICLE_LIBRARY_SCRIPT } from '@/lib/reticles/library';
+import { GROUP_STATS_SCRIPT } from '@/lib/shooting/group';
+
+/**
+ * Tudo o que o overlay precisa do lado nativo antes de montar o State, em um único
+ * `injectedJavaScriptBeforeContentLoaded`. Cada módulo exporta o seu trecho; a fonte
+ * dos dados e dos cálculos compartilhados continua sendo o TypeScript.
+ */
+export const OVERLAY_SCRIPT = [
+  RETICLE_LIBRARY_SCRIPT,
+  PROFILE_SCHEMA_SCRIPT,
+  GROUP_STATS_SCRIPT,
+  ZOOM_CURVE_SCRIPT,
+].join('\n');
@@ -0,0 +1,289 @@
+/**
+ * Protocolo de mensagens entre o overlay HTML (WebView) e a tela nativa.
+ *
+ * Toda mensagem trafega num envelope `{ v, type, id?, replyTo? }`:
+ * - `v` é a versão do protocolo; mensagens de outra versão são rejeitadas.
+ * - `id` identifica uma requisição que espera resposta.
+ * - `replyTo` correlaciona uma resposta com o `id` da requisição.
+ *
+ * O lado HTML implementa o mesmo contrato em `window.Bridge` (app/index.html).
+ */
+
+import type { BallisticParams, Trajectory } from '@/lib/ballistics/bb';
+import { validateBallisticParams } from '@/lib/ballistics/bb';
+import type { Rgb, SceneRegion } from '@/lib/capture/scene';
+import { Fields, isFiniteNumber, isObject } from '@/lib/common/guards';
+import type { DeviceFov, FovMeasurement } from '@/lib/optics/angular';
+import type { ZoomCurve } from '@/lib/optics/zoom';
+import type { Attitude } from '@/lib/orientation/fusion';
+import type { ImportDecision } from '@/lib/profiles/merge';
+import type { Profile } from '@/lib/profiles/schema';
+import type { ReticleDefinition } from '@/lib/reticles/types';
+import type { ShootingSession } from '@/lib/sessions/store';
+import type { ShotEvent } from '@/lib/sessions/summary';
+import { validateShot } from '@/lib/sessions/summary';
+import { validateReticleDefinition } from '@/lib/reticles/validate';
+import type { StabilityThresholds } from '@/lib/stability/engine';
+import type { FireAssistSettings } from '@/lib/stability/fire-window';
+import type { Weapon } from '@/lib/weapons/weapon';
+import { validateWeapon } from '@/lib/weapons/weapon';
+
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+export interface BridgeEnvelope {
+  v: number;
+  id?: string;
+  replyTo?: string;
+}
+
+// --- Overlay (WebView) -> Nativo ---
+
+export type OverlayPayload =
+  | { type: 'ready'; message?: string }
+  | { type: 'hideNavigationBar' }
+  | { type: 'zoom'; value: number }
+  | { type: 'saveProfile'; profile: Record<string, unknown> }
+  | { type: 'saveAllProfiles'; profiles: Record<string, unknown>[] }
+  | { type: 'loadProfiles' }
+  | { type: 'deleteProfile'; id: number }
+  | { type: 'saveState'; state: Record<string, unknown> }
+  | { type: 'loadState' }
+  | { type: 'takePhoto'; reticle: ReticleSnapshot; pitch: number; roll: number }
+  | { type: 'calibrateStability'; rest: number[]; freehand: number[]; profileId?: number }
+  | { type: 'fireAssist'; settings: FireAssistSettings }
+  | { type: 'startRecording' }
+  | { type: 'stopRecording' }
+  | { type: 'tare' }
+  | { type: 'resetTare' }
+  | { type: 'setTare'; tare: Attitude | null } // tara do perfil; null volta à tara do usuário
+  | { type: 'loadReticles' }
+  | { type: 'saveReticle'; reticle: ReticleDefinition }
+  | { type: 'deleteReticle'; id: string }
+  | { type: 'exportReticle'; reticle: ReticleDefinition }
+  | { type: 'importReticle' }
+  | { type: 'autoContrast'; enabled: boolean }
+  | { type: 'sceneRegion'; region: SceneRegion }
+  | { type: 'setZoomCurve'; curve: ZoomCurve }
+  | { type: 'calibrateFov'; measurement: FovMeasurement }
+  | { type: 'haptic'; style: HapticStyle }
+  | { type: 'solveTrajectory'; params: BallisticParams; maxDistance?: number }
+  | { type: 'startSession'; profileName: string | null }
+  | { type: 'endSession' }
+  | { type: 'logShot'; shot: Omit<ShotEvent, 't'> }
+  | { type: 'volumeTrigger'; enabled: boolean }
+  | { type: 'openHistory' }
+  | { type: 'exportProfiles'; ids: number[] }
+  | { type: 'profileQr'; id: number }
+  | { type: 'importProfiles' }
+  | { type: 'scanQr'; enabled: boolean }
+  | { type: 'resolveImport'; decisions: ImportDecision[] }
+  | { type: 'loadWeapons' }
+  | { type: 'saveWeapon'; weapon: Omit<Weapon, 'photoUri'> }
+  | { type: 'deleteWeapon'; id: number }
+  | { type: 'captureWeaponPhoto'; id: number }
+  | { type: 'loadWeaponPhoto'; id: number };
+
+// Retorno tátil pedido pelo overlay (ex.: um "clique" de torre)
+export type HapticStyle = 'selection' | 'light' | 'medium';
+
+// Estado visível da mira enviado junto com capturas
+export interface ReticleSnapshot {
+  shape: string;
+  color: string;
+  x: number;
+  y: number;
+}
+
+export type OverlayMessageType = OverlayPayload['type'];
+export type OverlayMessage = BridgeEnvelope & OverlayPayload;
+export type OverlayMessageOf<K extends OverlayMessageType> = BridgeEnvelope & Extract<OverlayPayload, { type: K }>;
+
+// --- Nativo -> Overlay (WebView) ---
+
+export type NativePayload =
+  | { type: 'profiles'; profiles: Profile[] }
+  | { type: 'state'; state: Record<string, unknown> | null }
+  | { type: 'stability'; score: number }
+  | { type: 'stabilityThresholds'; thresholds: StabilityThresholds }
+  | { type: 'fireAssistSettings'; settings: FireAssistSettings }
+  | { type: 'fireWindow'; open: boolean }
+  | { type: 'orientation'; pitch: number; roll: number }
+  | { type: 'tareState'; tare: Attitude }
+  | { type: 'photoSaved'; assetId: string; uri: string }
+  | { type: 'recordingStarted' }
+  | { type: 'recordingFailed'; reason: string }
+  | { type: 'recordingSaved'; assetId: string; videoUri: string; telemetryUri: string; samples: number }
+  | { type: 'reticles'; reticles: ReticleDefinition[] }
+  | { type: 'reticleImported'; reticle: ReticleDefinition | null }
+  | { type: 'reticleExported'; uri: string }
+  | { type: 'sceneColor'; rgb: Rgb }
+  | { type: 'zoomCurve'; curve: ZoomCurve }
+  | { type: 'fov'; fov: DeviceFov }
+  | { type: 'trajectory'; trajectory: Trajectory }
+  | { type: 'session'; session: ShootingSession | null }
+  | { type: 'trigger'; source: 'volume' }
+  | { type: 'profilesExported'; uri: string }
+  | { type: 'profileQr'; svg: string }
+  // Prévia de um pacote recebido (arquivo, QR ou link); `conflict` = já existe perfil com o mesmo nome
+  | { type: 'profileImport'; profiles: { name: string; conflict: boolean }[]; reticles: number }
+  | { type: 'profilesImported'; imported: number }
+  | { type: 'weapons'; weapons: Weapon[] }
+  | { type: 'weaponPhoto'; weaponId: number; dataUri: string | null }
+  | { type: 'error'; reason: string };
+
+export type NativeMessageType = NativePayload['type'];
+export type NativeMessage = BridgeEnvelope & NativePayload;
+
+// --- Validação em tempo de execução ---
+
+export type ParseResult =
+  | { ok: true; message: OverlayMessage }
+  | { ok: false; error: string; id?: string };
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isFiniteNumber);
+
+const isReticleSnapshot = (value: unknown): value is ReticleSnapshot =>
+  isObject(value) &&
+  typeof value.shape === 'string' &&
+  typeof value.color === 'string' &&
+  isFiniteNumber(value.x) &&
+  isFiniteNumber(value.y);
+
+// Cada validador retorna null se o payload é válido, ou o motivo da rejeição
+const validators: { [K in OverlayMessageType]: (msg: Fields) => string | null } = {
+  ready: (msg) => (msg.message === undefined || typeof msg.message === 'string' ? null : 'message deve ser string'),
+  hideNavigationBar: () => null,
+  zoom: (msg) => (isFiniteNumber(msg.value) ? null : 'value deve ser número'),
+  saveProfile: (msg) => {
+    if (!isObject(msg.profile)) return 'profile deve ser objeto';
+    return typeof msg.profile.name === 'string' && msg.profile.name.trim() ? null : 'profile.name é obrigatório';
+  },
+  saveAllProfiles: (msg) =>
+    Array.isArray(msg.profiles) && msg.profiles.every(isObject) ? null : 'profiles deve ser lista de objetos',
+  loadProfiles: () => null,
+  deleteProfile: (msg) => (isFiniteNumber(msg.id) ? null : 'id deve ser número'),
+  saveState: (msg) => (isObject(msg.state) ? null : 'state deve ser objeto'),
+  loadState: () => null,
+  takePhoto: (msg) => {
+    if (!isReticleSnapshot(msg.reticle)) return 'reticle inválido';
+    return isFiniteNumber(msg.pitch) && isFiniteNumber(msg.roll) ? null : 'pitch/roll devem ser números';
+  },
+  calibrateStability: (msg) => {
+    if (!isNumberList(msg.rest) || !isNumberList(msg.freehand)) return 'rest/freehand devem ser listas de números';
+    return msg.profileId === undefined || isFiniteNumber(msg.profileId) ? null : 'profileId deve ser número';
+  },
+  fireAssist: (msg) => {
+    const settings = msg.settings;
+    if (!isObject(settings)) return 'settings deve ser objeto';
+    if (typeof settings.enabled !== 'boolean' || typeof settings.tone !== 'boolean') return 'enabled/tone devem ser booleanos';
+    return isFiniteNumber(settings.dwellMs) && isFiniteNumber(settings.threshold) ? null : 'dwellMs/threshold devem ser números';
+  },
+  startRecording: () => null,
+  stopRecording: () => null,
+  tare: () => null,
+  resetTare: () => null,
+  setTare: (msg) =>
+    msg.tare === null || (isObject(msg.tare) && isFiniteNumber(msg.tare.pitch) && isFiniteNumber(msg.tare.roll))
+      ? null
+      : 'tare deve ter pitch e roll numéricos ou ser null',
+  loadReticles: () => null,
+  saveReticle: (msg) => validateReticleDefinition(msg.reticle),
+  deleteReticle: (msg) => (typeof msg.id === 'string' && msg.id ? null : 'id deve ser string'),
+  exportReticle: (msg) => validateReticleDefinition(msg.reticle),
+  importReticle: () => null,
+  autoContrast: (msg) => (typeof msg.enabled === 'boolean' ? null : 'enabled deve ser booleano'),
+  sceneRegion: (msg) =>
+    isObject(msg.region) &&
+    isFiniteNumber(msg.region.x) &&
+    isFiniteNumber(msg.region.y) &&
+    isFiniteNumber(msg.region.radius) &&
+    msg.region.radius > 0
+      ? null
+      : 'region deve ter x, y e radius > 0',
+  setZoomCurve: (msg) =>
+    Array.isArray(msg.curve) &&
+    msg.curve.every((p) => isObject(p) && isFiniteNumber(p.zoom) && isFiniteNumber(p.magnification))
+      ? null
+      : 'curve deve ser lista de { zoom, magnification }',
+  calibrateFov: (msg) => {
+    const m = msg.measurement;
+    if (!isObject(m)) return 'measurement deve ser objeto';
+    if (![m.pixels, m.targetSize, m.distance, m.magnificationRatio].every(isFiniteNumber)) {
+      return 'pixels/targetSize/distance/magnificationRatio devem ser números';
+    }
+    if (m.orientation !== 'landscape' && m.orientation !== 'portrait') return 'orientation inválida';
+    return isObject(m.viewport) && isFiniteNumber(m.viewport.width) && isFiniteNumber(m.viewport.height)
+      ? null
+      : 'viewport deve ter width e height';
+  },
+  haptic: (msg) =>
+    msg.style === 'selection' || msg.style === 'light' || msg.style === 'medium' ? null : 'style inválido',
+  solveTrajectory: (msg) => {
+    if (msg.maxDistance !== undefined && !(isFiniteNumber(msg.maxDistance) && msg.maxDistance > 0 && msg.maxDistance <= 150)) {
+      return 'maxDistance deve estar entre 0 e 150';
+    }
+    return validateBallisticParams(msg.params);
+  },
+  startSession: (msg) =>
+    msg.profileName === null || typeof msg.profileName === 'string' ? null : 'profileName deve ser string ou null',
+  endSession: () => null,
+  logShot: (msg) => validateShot(msg.shot),
+  volumeTrigger: (msg) => (typeof msg.enabled === 'boolean' ? null : 'enabled deve ser booleano'),
+  openHistory: () => null,
+  exportProfiles: (msg) =>
+    isNumberList(msg.ids) && msg.ids.length > 0 ? null : 'ids deve ser lista de números não vazia',
+  profileQr: (msg) => (isFiniteNumber(msg.id) ? null : 'id deve ser número'),
+  importProfiles: () => null,
+  scanQr: (msg) => (typeof msg.enabled === 'boolean' ? null : 'enabled deve ser booleano'),
+  resolveImport: (msg) =>
+    Array.isArray(msg.decisions) && msg.decisions.every((d) => d === 'rename' || d === 'overwrite' || d === 'skip')
+      ? null
+      : 'decisions deve ser lista de rename/overwrite/skip',
+  loadWeapons: () => null,
+  // A foto não vem do overlay: é tirada no nativo por captureWeaponPhoto
+  saveWeapon: (msg) => (isObject(msg.weapon) ? validateWeapon({ ...msg.weapon, photoUri: null }) : 'weapon deve ser objeto'),
+  deleteWeapon: (msg) => (isFiniteNumber(msg.id) ? null : 'id deve ser número'),
+  captureWeaponPhoto: (msg) => (isFiniteNumber(msg.id) ? null : 'id deve ser número'),
+  loadWeaponPhoto: (msg) => (isFiniteNumber(msg.id) ? null : 'id deve ser número'),
+};
+
+export function isOverlayMessageType(type: unknown): type is OverlayMessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(validators, type);
+}
+
+/**
+ * Converte o texto recebido em `onMessage` numa mensagem tipada,
+ * rejeitando JSON inválido, versão incompatível, tipo desconhecido ou payload malformado.
+ */
+export function parseOverlayMessage(raw: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'JSON inválido' };
+  }
+
+  if (!isObject(data)) {
+    return { ok: false, error: 'mensagem deve ser objeto' };
+  }
+
+  const id = typeof data.id === 'string' ? data.id : undefined;
+
+  if (data.v !== BRIDGE_PROTOCOL_VERSION) {
+    return { ok: false, error: `versão de protocolo não suportada: ${String(data.v)}`, id };
+  }
+  if (data.id !== undefined && typeof data.id !== 'string') {
+    return { ok: false, error: 'id deve ser string' };
+  }
+  if (!isOverlayMessageType(data.type)) {
+    return { ok: false, error: `tipo desconhecido: ${String(data.type)}`, id };
+  }
+
+  const reason = validators[data.type](data);
+  if (reason) {
+    return { ok: false, error: `${data.type}: ${reason}`, id };
+  }
+
+  return { ok: true, message: data as unknown as OverlayMessage };
+}
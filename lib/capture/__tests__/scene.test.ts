@@ -0,0 +1,103 @@
+import { averageRgb, imageQuarterTurns, regionToImageRect } from '@/lib/capture/scene';
+import { createCaptureQueue } from '@/lib/capture/queue';
+
+const PORTRAIT_SCREEN = { width: 400, height: 800 };
+const PORTRAIT_PHOTO = { width: 1000, height: 2000 };
+const LANDSCAPE_PHOTO = { width: 2000, height: 1000 };
+
+describe('imageQuarterTurns', () => {
+  it('mantém a foto quando ela acompanha a tela', () => {
+    expect(imageQuarterTurns(PORTRAIT_PHOTO, PORTRAIT_SCREEN, 5)).toBe(0);
+    expect(imageQuarterTurns(LANDSCAPE_PHOTO, { width: 800, height: 400 }, -10)).toBe(0);
+  });
+
+  it('gira para o lado do cant quando as proporções não batem', () => {
+    expect(imageQuarterTurns(LANDSCAPE_PHOTO, PORTRAIT_SCREEN, 88)).toBe(1);
+    expect(imageQuarterTurns(LANDSCAPE_PHOTO, PORTRAIT_SCREEN, -92)).toBe(-1);
+  });
+
+  it('vira de cabeça para baixo com a tela travada e o aparelho invertido', () => {
+    expect(imageQuarterTurns(PORTRAIT_PHOTO, PORTRAIT_SCREEN, 178)).toBe(2);
+  });
+});
+
+describe('regionToImageRect', () => {
+  it('centro da tela cai no centro da foto', () => {
+    // Foto 2.5x maior que a tela nos dois eixos: raio 40 px vira 100 px
+    expect(regionToImageRect({ x: 0, y: 0, radius: 40 }, PORTRAIT_PHOTO, PORTRAIT_SCREEN, 0)).toEqual({
+      originX: 400,
+      originY: 900,
+      width: 200,
+      height: 200,
+    });
+  });
+
+  it('acompanha o deslocamento da mira no preview cortado (cover)', () => {
+    // Tela mais estreita que a foto: a escala é a da altura (800 / 2000), as laterais ficam de fora
+    const rect = regionToImageRect({ x: 40, y: -80, radius: 20 }, { width: 1500, height: 2000 }, PORTRAIT_SCREEN, 0);
+    expect(rect).toEqual({ originX: 800, originY: 750, width: 100, height: 100 });
+  });
+
+  it('gira o deslocamento na foto tirada com cant horário', () => {
+    // Mira à direita da tela = abaixo do centro na foto de pé
+    const rect = regionToImageRect({ x: 100, y: 0, radius: 20 }, LANDSCAPE_PHOTO, PORTRAIT_SCREEN, 90)!;
+    expect(rect.originX + rect.width / 2).toBe(1000);
+    expect(rect.originY + rect.height / 2).toBe(750);
+  });
+
+  it('gira para o outro lado com cant anti-horário', () => {
+    const rect = regionToImageRect({ x: 100, y: 0, radius: 20 }, LANDSCAPE_PHOTO, PORTRAIT_SCREEN, -90)!;
+    expect(rect.originX + rect.width / 2).toBe(1000);
+    expect(rect.originY + rect.height / 2).toBe(250);
+  });
+
+  it('inverte o deslocamento na foto de cabeça para baixo', () => {
+    const rect = regionToImageRect({ x: 40, y: 80, radius: 20 }, PORTRAIT_PHOTO, PORTRAIT_SCREEN, 180)!;
+    expect(rect.originX + rect.width / 2).toBe(400);
+    expect(rect.originY + rect.height / 2).toBe(800);
+  });
+
+  it('recorta a região nas bordas da foto', () => {
+    expect(regionToImageRect({ x: -190, y: 0, radius: 40 }, PORTRAIT_PHOTO, PORTRAIT_SCREEN, 0)).toEqual({
+      originX: 0,
+      originY: 900,
+      width: 125,
+      height: 200,
+    });
+  });
+
+  it('retorna null com a região fora da foto', () => {
+    expect(regionToImageRect({ x: 900, y: 0, radius: 40 }, PORTRAIT_PHOTO, PORTRAIT_SCREEN, 0)).toBeNull();
+  });
+});
+
+describe('averageRgb', () => {
+  it('média dos pixels RGBA ignorando o alfa', () => {
+    expect(averageRgb([255, 0, 0, 255, 0, 0, 255, 0])).toEqual([127.5, 0, 127.5]);
+  });
+});
+
+describe('createCaptureQueue', () => {
+  it('roda uma captura por vez, na ordem', async () => {
+    const queue = createCaptureQueue();
+    const events: string[] = [];
+    const capture = (name: string) => async () => {
+      events.push(`${name}:start`);
+      await Promise.resolve();
+      events.push(`${name}:end`);
+      return name;
+    };
+
+    const results = Promise.all([queue.run(capture('a')), queue.run(capture('b'))]);
+    expect(queue.busy).toBe(true);
+    expect(await results).toEqual(['a', 'b']);
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    expect(queue.busy).toBe(false);
+  });
+
+  it('segue depois de uma captura que falhou', async () => {
+    const queue = createCaptureQueue();
+    await expect(queue.run(() => Promise.reject(new Error('câmera ocupada')))).rejects.toThrow('câmera ocupada');
+    await expect(queue.run(async () => 'ok')).resolves.toBe('ok');
+  });
+});
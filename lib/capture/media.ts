@@ -0,0 +1,27 @@
+import * as MediaLibrary from 'expo-media-library';
+
+// Álbum dedicado onde fotos e vídeos da mira são guardados
+export const SIGHT_ALBUM_NAME = 'Airsoft Pro Sight';
+
+/**
+ * Salva um arquivo local (foto ou vídeo) no álbum da mira,
+ * criando o álbum na primeira vez. Retorna o asset criado na galeria.
+ */
+export async function saveToSightAlbum(localUri: string) {
+  const permission = await MediaLibrary.requestPermissionsAsync(true);
+  if (!permission.granted) {
+    throw new Error('Permissão da galeria negada');
+  }
+
+  const asset = await MediaLibrary.createAssetAsync(localUri);
+  const album = await MediaLibrary.getAlbumAsync(SIGHT_ALBUM_NAME);
+
+  if (album) {
+    await MediaLibrary.addAssetsToAlbumAsync([asset], album, false);
+  } else {
+    await MediaLibrary.createAlbumAsync(SIGHT_ALBUM_NAME, asset, false);
+  }
+
+  console.log(`🖼️ Mídia salva no álbum "${SIGHT_ALBUM_NAME}":`, asset.id);
+  return asset;
+}
@@ -0,0 +1,37 @@
+import type { CameraView } from 'expo-camera';
+
+import { saveToSightAlbum } from '@/lib/capture/media';
+
+// Estado da mira no instante do disparo, gravado junto com a foto
+export interface ShotMetadata {
+  takenAt: string;
+  reticle: { shape: string; color: string; x: number; y: number };
+  zoom: number;
+  pitch: number;
+  roll: number;
+  stabilityScore: number;
+}
+
+/**
+ * Captura uma foto com a câmera nativa e salva no álbum da mira.
+ * O estado da mira vai no EXIF (UserComment em JSON e ImageDescription legível).
+ */
+export async function takeSightPhoto(camera: CameraView, metadata: ShotMetadata) {
+  const description =
+    `Mira ${metadata.reticle.shape} ${metadata.reticle.color} ` +
+    `offset(${Math.round(metadata.reticle.x)}, ${Math.round(metadata.reticle.y)}) ` +
+    `zoom ${metadata.zoom.toFixed(2)} pitch ${metadata.pitch.toFixed(1)}° roll ${metadata.roll.toFixed(1)}° ` +
+    `estabilidade ${metadata.stabilityScore.toFixed(1)}`;
+
+  const picture = await camera.takePictureAsync({
+    exif: true,
+    additionalExif: {
+      ImageDescription: description,
+      UserComment: JSON.stringify(metadata),
+    },
+  });
+
+  const asset = await saveToSightAlbum(picture.uri);
+  console.log('📷 Foto capturada:', description);
+  return asset;
+}
@@ -0,0 +1,28 @@
+/**
+ * Fila única das capturas da câmera (foto da mira, foto da arma, amostra da cena).
+ * Duas chamadas de takePictureAsync ao mesmo tempo na mesma câmera falham ou travam o preview.
+ */
+export interface CaptureQueue {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  readonly busy: boolean; // há captura em andamento ou esperando
+}
+
+export function createCaptureQueue(): CaptureQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+  let pending = 0;
+
+  return {
+    run(task) {
+      pending++;
+      const result = tail.then(task).finally(() => {
+        pending--;
+      });
+      // Uma captura que falha não trava as seguintes
+      tail = result.catch(() => undefined);
+      return result;
+    },
+    get busy() {
+      return pending > 0;
+    },
+  };
+}
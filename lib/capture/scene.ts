@@ -0,0 +1,117 @@
+import type { CameraView } from 'expo-camera';
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decode as decodeJpeg } from 'jpeg-js';
+
+// Região da tela atrás da mira, em px do overlay relativos ao centro (o mesmo offset de State.reticle)
+export interface SceneRegion {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface CropRect {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
+export type Rgb = [number, number, number];
+
+// Lado da miniatura da região decodificada em JS: 16x16 basta para a cor média
+const SAMPLE_SIZE = 16;
+
+/**
+ * Quartos de volta (sentido horário) da foto em relação à tela. A foto sai de pé em relação
+ * à gravidade, enquanto a tela segue a orientação da interface; com a interface travada e o
+ * aparelho de lado, as duas divergem. `roll` é o cant bruto (sem tara) relativo à tela.
+ */
+export function imageQuarterTurns(image: Size, screen: Size, roll: number) {
+  const sameAspect = image.width >= image.height === screen.width >= screen.height;
+  if (!sameAspect) return roll >= 0 ? 1 : -1;
+  return Math.abs(roll) > 135 ? 2 : 0;
+}
+
+/**
+ * Retângulo da foto que aparece atrás da região da tela. O preview preenche a tela em modo
+ * "cover" com os centros alinhados. Retorna null se a região cai fora da foto.
+ */
+export function regionToImageRect(region: SceneRegion, image: Size, screen: Size, roll: number): CropRect | null {
+  const turns = imageQuarterTurns(image, screen, roll);
+  // Tamanho da foto vista na orientação da tela
+  const shown = turns % 2 === 0 ? image : { width: image.height, height: image.width };
+  const scale = Math.max(screen.width / shown.width, screen.height / shown.height);
+
+  // Offset em px da foto, girado da tela para a foto
+  let x = region.x / scale;
+  let y = region.y / scale;
+  for (let i = 0; i < (turns + 4) % 4; i++) [x, y] = [-y, x];
+  const r = Math.max(2, region.radius / scale);
+
+  const left = Math.max(0, Math.round(image.width / 2 + x - r));
+  const top = Math.max(0, Math.round(image.height / 2 + y - r));
+  const right = Math.min(image.width, Math.round(image.width / 2 + x + r));
+  const bottom = Math.min(image.height, Math.round(image.height / 2 + y + r));
+  if (right <= left || bottom <= top) return null;
+  return { originX: left, originY: top, width: right - left, height: bottom - top };
+}
+
+// Média RGB dos pixels (RGBA)
+export function averageRgb(data: ArrayLike<number>): Rgb {
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    red += data[i];
+    green += data[i + 1];
+    blue += data[i + 2];
+  }
+  const n = data.length / 4;
+  return [red / n, green / n, blue / n];
+}
+
+const deleteQuietly = (uri: string) => {
+  try {
+    new File(uri).delete();
+  } catch (error) {
+    console.warn('⚠️ Quadro temporário não removido:', error);
+  }
+};
+
+/**
+ * Captura um quadro sem som, recorta só a região atrás da mira e a reduz no nativo
+ * (expo-image-manipulator) antes de decodificar. Só a cor média sai daqui.
+ * Os arquivos temporários são apagados para não encher o cache.
+ */
+export async function sampleSceneColor(
+  camera: CameraView,
+  region: SceneRegion,
+  screen: Size,
+  roll: number
+): Promise<Rgb | null> {
+  const picture = await camera.takePictureAsync({ quality: 0, exif: false, shutterSound: false });
+  try {
+    const rect = regionToImageRect(region, picture, screen, roll);
+    if (!rect) return null;
+
+    const rendered = await ImageManipulator.manipulate(picture.uri)
+      .crop(rect)
+      .resize({ width: SAMPLE_SIZE, height: SAMPLE_SIZE })
+      .renderAsync();
+    const thumbnail = await rendered.saveAsync({ format: SaveFormat.JPEG, compress: 1 });
+    try {
+      const { data } = decodeJpeg(await new File(thumbnail.uri).bytes(), { useTArray: true, formatAsRGBA: true });
+      return averageRgb(data);
+    } finally {
+      deleteQuietly(thumbnail.uri);
+    }
+  } finally {
+    deleteQuietly(picture.uri);
+  }
+}
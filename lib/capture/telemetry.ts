@@ -0,0 +1,48 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+// Amostra do DeviceMotion gravada durante um vídeo (t = ms desde o início da gravação)
+export interface TelemetrySample {
+  t: number;
+  pitch: number;
+  roll: number;
+  stability: number;
+}
+
+/**
+ * Trilha de telemetria sincronizada com uma gravação de vídeo.
+ * Salva como CSV em documents/recordings com o mesmo carimbo de tempo do vídeo.
+ */
+export function createTelemetryTrack(startedAt = Date.now()) {
+  const samples: TelemetrySample[] = [];
+
+  return {
+    startedAt,
+    samples,
+
+    push(sample: Omit<TelemetrySample, 't'>) {
+      samples.push({ t: Date.now() - startedAt, ...sample });
+    },
+
+    toCsv() {
+      const rows = samples.map((s) =>
+        [s.t, startedAt + s.t, s.pitch.toFixed(2), s.roll.toFixed(2), s.stability.toFixed(2)].join(',')
+      );
+      return ['t_ms,epoch_ms,pitch_deg,roll_deg,stability', ...rows].join('\n');
+    },
+
+    save() {
+      const dir = new Directory(Paths.document, 'recordings');
+      dir.create({ intermediates: true, idempotent: true });
+
+      const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, '-');
+      const file = new File(dir, `sight-${stamp}.csv`);
+      file.create({ overwrite: true });
+      file.write(this.toCsv());
+
+      console.log(`📈 Telemetria salva (${samples.length} amostras):`, file.uri);
+      return file;
+    },
+  };
+}
+
+export type TelemetryTrack = ReturnType<typeof createTelemetryTrack>;
@@ -0,0 +1,12 @@
+/**
+ * Guardas de tipo para dados sem garantia de formato: mensagens do overlay,
+ * AsyncStorage e arquivos importados.
+ */
+
+export type Fields = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
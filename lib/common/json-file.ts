@@ -0,0 +1,45 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Nome de arquivo seguro a partir do nome exibido
+export const slug = (name: string, fallback: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase() || fallback;
+
+/**
+ * Grava `data` em documents/<folder>/<fileName>.json e abre a folha de compartilhamento do sistema.
+ */
+export async function shareJsonFile(folder: string, fileName: string, data: unknown, dialogTitle: string) {
+  const dir = new Directory(Paths.document, folder);
+  dir.create({ intermediates: true, idempotent: true });
+
+  const file = new File(dir, `${fileName}.json`);
+  file.create({ overwrite: true });
+  file.write(JSON.stringify(data, null, 2));
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(file.uri, { mimeType: 'application/json', UTI: 'public.json', dialogTitle });
+  }
+  return file;
+}
+
+/**
+ * Abre o seletor de arquivos do sistema e devolve o texto do .json escolhido.
+ * Retorna null se o usuário cancelar.
+ */
+export async function pickJsonFile(): Promise<string | null> {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, 'application/json');
+  } catch (error) {
+    console.log('📥 Importação cancelada:', error);
+    return null;
+  }
+
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  return file ? file.text() : null;
+}
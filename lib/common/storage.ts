@@ -0,0 +1,16 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Lista gravada como JSON numa chave do AsyncStorage. Na leitura, entradas corrompidas
+ * são descartadas em vez de quebrar o overlay.
+ */
+export async function loadJsonList<T>(key: string, isValid: (value: unknown) => value is T): Promise<T[]> {
+  const json = await AsyncStorage.getItem(key);
+  const stored: unknown = json ? JSON.parse(json) : [];
+  return Array.isArray(stored) ? stored.filter(isValid) : [];
+}
+
+export async function saveJsonList<T>(key: string, items: T[]): Promise<T[]> {
+  await AsyncStorage.setItem(key, JSON.stringify(items));
+  return items;
+}
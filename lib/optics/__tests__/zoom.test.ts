@@ -0,0 +1,76 @@
+import { DEFAULT_ZOOM_CURVE, magnificationAt, normalizeZoomCurve, ZOOM_CURVE_SCRIPT, ZoomCurve } from '@/lib/optics/zoom';
+
+// Roda o script injetado num `window` isolado, como o overlay faz
+function injectedMagnificationAt(): typeof magnificationAt {
+  const window: { magnificationAt?: typeof magnificationAt } = {};
+  new Function('window', ZOOM_CURVE_SCRIPT)(window);
+  return window.magnificationAt!;
+}
+
+const CURVE: ZoomCurve = [
+  { zoom: 0, magnification: 1 },
+  { zoom: 0.5, magnification: 2 },
+  { zoom: 1, magnification: 8 },
+];
+
+describe('magnificationAt', () => {
+  it.each([
+    [0, 1],
+    [0.25, 1.5],
+    [0.5, 2],
+    [0.75, 5],
+    [1, 8],
+  ])('interpola o zoom %p para %p×', (zoom, magnification) => {
+    expect(magnificationAt(CURVE, zoom)).toBeCloseTo(magnification);
+  });
+
+  it('extrapola com o segmento mais próximo', () => {
+    const curve = [
+      { zoom: 0.2, magnification: 2 },
+      { zoom: 0.4, magnification: 4 },
+    ];
+    expect(magnificationAt(curve, 0.6)).toBeCloseTo(6);
+    expect(magnificationAt(curve, 0.1)).toBeCloseTo(1);
+    expect(magnificationAt(curve, 0)).toBe(0.1);
+  });
+
+  it('curva de um ponto usa esse ponto', () => {
+    expect(magnificationAt([{ zoom: 0.3, magnification: 3 }], 0.9)).toBe(3);
+  });
+
+  it('curva vazia cai na curva padrão', () => {
+    expect(magnificationAt([], 0.5)).toBeCloseTo(magnificationAt(DEFAULT_ZOOM_CURVE, 0.5));
+  });
+});
+
+describe('normalizeZoomCurve', () => {
+  it('ordena, descarta pontos inválidos e fica com o último de cada zoom', () => {
+    expect(
+      normalizeZoomCurve([
+        { zoom: 1, magnification: 8 },
+        { zoom: 0, magnification: 1 },
+        { zoom: 0.5, magnification: -2 },
+        { zoom: 1, magnification: 9 },
+        { zoom: NaN, magnification: 3 },
+      ]),
+    ).toEqual([
+      { zoom: 0, magnification: 1 },
+      { zoom: 1, magnification: 9 },
+    ]);
+  });
+
+  it('retorna a curva padrão quando não sobra nada', () => {
+    expect(normalizeZoomCurve([{ zoom: 0.5, magnification: 500 }])).toBe(DEFAULT_ZOOM_CURVE);
+  });
+});
+
+describe('ZOOM_CURVE_SCRIPT', () => {
+  it('dá ao overlay a mesma interpolação da função nativa', () => {
+    const overlayMagnificationAt = injectedMagnificationAt();
+    for (const curve of [CURVE, DEFAULT_ZOOM_CURVE, [{ zoom: 0.3, magnification: 3 }]]) {
+      for (const zoom of [0, 0.1, 0.33, 0.5, 0.8, 1]) {
+        expect(overlayMagnificationAt(curve, zoom)).toBe(magnificationAt(curve, zoom));
+      }
+    }
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Conversão entre pixels da tela e unidades angulares (miliradianos e MOA).
+ * A escala depende do aparelho (lente, sensor, tela) e da orientação da interface,
+ * por isso é calibrada no próprio aparelho e guardada fora dos perfis.
+ */
+
+// 1 MOA = 1/60 de grau = π/10800 rad ≈ 0.2909 mil
+export const MIL_PER_MOA = (Math.PI / 10800) * 1000;
+
+export type AngularUnit = 'mil' | 'moa';
+
+export type ViewOrientation = 'landscape' | 'portrait';
+
+export interface FovCalibration {
+  pxPerMil: number; // px CSS do overlay por mil, no zoom mínimo (magnificação relativa 1)
+  viewport: { width: number; height: number };
+  measuredAt: string;
+}
+
+// Uma calibração por orientação: o preview em "cover" recorta o sensor de forma diferente em cada uma
+export type DeviceFov = Partial<Record<ViewOrientation, FovCalibration>>;
+
+export interface FovMeasurement {
+  pixels: number; // distância na tela entre as bordas do alvo
+  targetSize: number; // metros
+  distance: number; // metros
+  magnificationRatio: number; // magnificação no momento da medida ÷ magnificação no zoom mínimo
+  orientation: ViewOrientation;
+  viewport: { width: number; height: number };
+}
+
+// Tamanho angular exato de um alvo (não a aproximação tamanho/distância)
+export function angularSizeMil(size: number, distance: number) {
+  return 2 * Math.atan(size / (2 * distance)) * 1000;
+}
+
+export function validateFovMeasurement(m: FovMeasurement): string | null {
+  if (!(m.pixels >= 10)) return 'marque as bordas do alvo com pelo menos 10 px de distância';
+  if (!(m.targetSize > 0) || !(m.distance > 0)) return 'tamanho e distância devem ser positivos';
+  if (!(m.magnificationRatio > 0)) return 'magnificação inválida';
+  return null;
+}
+
+/**
+ * Converte a medida de um alvo conhecido em px por mil, normalizado para o zoom mínimo.
+ */
+export function deriveFovCalibration(m: FovMeasurement): FovCalibration {
+  const reason = validateFovMeasurement(m);
+  if (reason) throw new Error(reason);
+
+  const mil = angularSizeMil(m.targetSize, m.distance);
+  return {
+    pxPerMil: m.pixels / mil / m.magnificationRatio,
+    viewport: m.viewport,
+    measuredAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Relação entre o zoom normalizado do CameraView (0-1) e a magnificação real da imagem.
+ * Cada aparelho tem a sua (lentes, zoom digital máximo), então a curva é calibrada
+ * pelo usuário e guardada no aparelho, fora dos perfis.
+ */
+
+export interface ZoomPoint {
+  zoom: number; // 0-1, o mesmo valor passado ao `zoom` do CameraView
+  magnification: number; // fator real em relação à lente principal (1×)
+}
+
+export type ZoomCurve = ZoomPoint[];
+
+// Sem calibração: linear de 1× a 10×, o mesmo que o HUD sempre exibiu (zoom × 10)
+export const DEFAULT_ZOOM_CURVE: ZoomCurve = [
+  { zoom: 0, magnification: 1 },
+  { zoom: 1, magnification: 10 },
+];
+
+export const MAX_MAGNIFICATION = 100;
+
+/**
+ * Ordena por zoom, descarta pontos inválidos e mantém o último ponto informado para cada zoom.
+ * Retorna a curva padrão se não sobrar nenhum ponto.
+ */
+export function normalizeZoomCurve(points: ZoomPoint[]): ZoomCurve {
+  const byZoom = new Map<number, number>();
+  for (const p of points) {
+    if (!Number.isFinite(p.zoom) || !Number.isFinite(p.magnification)) continue;
+    if (p.magnification <= 0 || p.magnification > MAX_MAGNIFICATION) continue;
+    byZoom.set(Math.round(Math.max(0, Math.min(1, p.zoom)) * 1000) / 1000, p.magnification);
+  }
+
+  const curve = [...byZoom.entries()]
+    .map(([zoom, magnification]) => ({ zoom, magnification }))
+    .sort((a, b) => a.zoom - b.zoom);
+  return curve.length > 0 ? curve : DEFAULT_ZOOM_CURVE;
+}
+
+/**
+ * Interpolação linear entre os pontos calibrados; fora do intervalo, extrapola
+ * pelo segmento mais próximo (ou usa o único ponto, se houver só um).
+ */
+export function magnificationAt(curve: ZoomCurve, zoom: number): number {
+  return interpolateMagnification(curve.length > 0 ? curve : DEFAULT_ZOOM_CURVE, zoom);
+}
+
+// Autocontida: o overlay roda esta mesma função (ZOOM_CURVE_SCRIPT). 'show source' faz o Hermes
+// manter o fonte no bytecode, senão `toString()` devolve só a assinatura.
+function interpolateMagnification(curve: ZoomCurve, zoom: number): number {
+  'show source';
+  if (curve.length === 1) return curve[0].magnification;
+
+  let i = curve.findIndex((p) => p.zoom >= zoom);
+  if (i === -1) i = curve.length - 1;
+  if (i === 0) i = 1;
+  const a = curve[i - 1];
+  const b = curve[i];
+  if (b.zoom === a.zoom) return b.magnification;
+
+  const t = (zoom - a.zoom) / (b.zoom - a.zoom);
+  return Math.max(0.1, a.magnification + t * (b.magnification - a.magnification));
+}
+
+// Script para `injectedJavaScriptBeforeContentLoaded`: o overlay converte zoom em magnificação com
+// `window.magnificationAt`; a curva nunca chega vazia lá (`setCurve` mantém a anterior)
+export const ZOOM_CURVE_SCRIPT = `window.magnificationAt = ${interpolateMagnification.toString()}; true;`;
@@ -0,0 +1,183 @@
+import {
+  applyTare,
+  attitudeFromGravity,
+  createOrientationFusion,
+  ScreenOrientationKind,
+  wrapDegrees,
+} from '@/lib/orientation/fusion';
+import type { Vec3 } from '@/lib/stability/strategies';
+
+const G = 9.80665;
+const ORIENTATIONS: ScreenOrientationKind[] = ['portrait-up', 'portrait-down', 'landscape-left', 'landscape-right'];
+
+/**
+ * Leituras do acelerômetro (accelerationIncludingGravity, aponta para cima) no referencial do aparelho,
+ * escritas à mão a partir da pose física, sem passar pela tabela de fusion.ts.
+ * landscape-left = topo do aparelho para a direita: a gravidade física fica em +x e a leitura em -x.
+ * landscape-right = topo para a esquerda: gravidade física em -x, leitura em +x.
+ */
+const LEVEL: Record<ScreenOrientationKind, Vec3> = {
+  'portrait-up': { x: 0, y: G, z: 0 },
+  'portrait-down': { x: 0, y: -G, z: 0 },
+  'landscape-left': { x: -G, y: 0, z: 0 },
+  'landscape-right': { x: G, y: 0, z: 0 },
+};
+
+// A mesma pose com 90° de cant horário: o "cima" real aparece à esquerda da tela
+const CANT_90: Record<ScreenOrientationKind, Vec3> = {
+  'portrait-up': { x: -G, y: 0, z: 0 },
+  'portrait-down': { x: G, y: 0, z: 0 },
+  'landscape-left': { x: 0, y: -G, z: 0 },
+  'landscape-right': { x: 0, y: G, z: 0 },
+};
+
+/**
+ * Gravidade medida com a mira elevada `pitch` graus e inclinada `roll` graus no sentido horário,
+ * na orientação de tela dada.
+ */
+function gravityFor(orientation: ScreenOrientationKind, pitch: number, roll: number): Vec3 {
+  const p = (pitch * Math.PI) / 180;
+  const r = (roll * Math.PI) / 180;
+  const level = LEVEL[orientation];
+  const cant = CANT_90[orientation];
+  const inPlane = Math.cos(p);
+  return {
+    x: inPlane * (Math.cos(r) * level.x + Math.sin(r) * cant.x),
+    y: inPlane * (Math.cos(r) * level.y + Math.sin(r) * cant.y),
+    z: -G * Math.sin(p),
+  };
+}
+
+describe('attitudeFromGravity', () => {
+  // Cant horário de 30° e elevação de ±30°, com os vetores do aparelho escritos por extenso
+  const C = G * Math.cos(Math.PI / 6);
+  const S = G / 2;
+
+  it.each([
+    ['portrait-up', { x: -S, y: C, z: 0 }],
+    ['portrait-down', { x: S, y: -C, z: 0 }],
+    ['landscape-left', { x: -C, y: -S, z: 0 }],
+    ['landscape-right', { x: C, y: S, z: 0 }],
+  ] as [ScreenOrientationKind, Vec3][])('%s: cant horário de 30° dá roll positivo', (orientation, gravity) => {
+    const attitude = attitudeFromGravity(gravity, orientation);
+    expect(attitude.roll).toBeCloseTo(30, 6);
+    expect(attitude.pitch).toBeCloseTo(0, 6);
+  });
+
+  it.each([
+    ['portrait-up', { x: 0, y: C, z: -S }],
+    ['portrait-down', { x: 0, y: -C, z: S }],
+    ['landscape-left', { x: -C, y: 0, z: -S }],
+    ['landscape-right', { x: C, y: 0, z: S }],
+  ] as [ScreenOrientationKind, Vec3][])('%s: o sinal de z define a elevação', (orientation, gravity) => {
+    const attitude = attitudeFromGravity(gravity, orientation);
+    expect(attitude.pitch).toBeCloseTo(gravity.z < 0 ? 30 : -30, 6);
+    expect(attitude.roll).toBeCloseTo(0, 6);
+  });
+
+  it.each(ORIENTATIONS)('%s: mira nivelada = pitch 0, roll 0', (orientation) => {
+    const attitude = attitudeFromGravity(gravityFor(orientation, 0, 0), orientation);
+    expect(attitude.pitch).toBeCloseTo(0, 6);
+    expect(attitude.roll).toBeCloseTo(0, 6);
+  });
+
+  it.each(ORIENTATIONS)('%s: cant e elevação combinados', (orientation) => {
+    for (const [pitch, roll] of [
+      [15, 0],
+      [-10, 0],
+      [0, 10],
+      [0, -25],
+      [20, 5],
+    ]) {
+      const attitude = attitudeFromGravity(gravityFor(orientation, pitch, roll), orientation);
+      expect(attitude.pitch).toBeCloseTo(pitch, 6);
+      expect(attitude.roll).toBeCloseTo(roll, 6);
+    }
+  });
+
+  it.each(ORIENTATIONS)('%s: aparelho de cabeça para baixo dá roll ±180', (orientation) => {
+    const attitude = attitudeFromGravity(gravityFor(orientation, 0, 180), orientation);
+    expect(Math.abs(attitude.roll)).toBeCloseTo(180, 6);
+  });
+
+  it('a orientação da tela muda o roll: paisagem lida como retrato fica 90° fora', () => {
+    const g = gravityFor('landscape-right', 0, 0);
+    expect(attitudeFromGravity(g, 'landscape-right').roll).toBeCloseTo(0, 6);
+    expect(Math.abs(attitudeFromGravity(g, 'portrait-up').roll)).toBeCloseTo(90, 6);
+  });
+
+  it('não depende da magnitude (aceleração vertical não vira ângulo)', () => {
+    const g = gravityFor('portrait-up', 12, 7);
+    const heavy = attitudeFromGravity({ x: g.x * 1.3, y: g.y * 1.3, z: g.z * 1.3 }, 'portrait-up');
+    expect(heavy.pitch).toBeCloseTo(12, 6);
+    expect(heavy.roll).toBeCloseTo(7, 6);
+  });
+
+  it('vetor nulo (sensor sem leitura) dá atitude zero', () => {
+    expect(attitudeFromGravity({ x: 0, y: 0, z: 0 }, 'portrait-up')).toEqual({ pitch: 0, roll: 0 });
+  });
+});
+
+describe('applyTare / wrapDegrees', () => {
+  it('subtrai a tara mantendo o roll em (-180, 180]', () => {
+    expect(applyTare({ pitch: 5, roll: -170 }, { pitch: 2, roll: 20 })).toEqual({ pitch: 3, roll: 170 });
+    expect(wrapDegrees(540)).toBe(180);
+    expect(wrapDegrees(-180)).toBe(180);
+  });
+});
+
+describe('createOrientationFusion', () => {
+  it.each(ORIENTATIONS)('%s: parado, coincide com o acelerômetro', (orientation) => {
+    const fusion = createOrientationFusion();
+    const gravity = gravityFor(orientation, 8, -4);
+    let attitude = fusion.update({ t: 0, gravity, rotationRate: { x: 0, y: 0, z: 0 } }, orientation);
+    for (let i = 1; i <= 20; i++) {
+      attitude = fusion.update({ t: i * 100, gravity, rotationRate: { x: 0, y: 0, z: 0 } }, orientation);
+    }
+    expect(attitude.pitch).toBeCloseTo(8, 4);
+    expect(attitude.roll).toBeCloseTo(-4, 4);
+  });
+
+  it.each(ORIENTATIONS)('%s: giro no eixo da câmera segue o giroscópio na hora', (orientation) => {
+    const fusion = createOrientationFusion();
+    fusion.update({ t: 0, gravity: gravityFor(orientation, 0, 0) }, orientation);
+    // 10° horário (visto da tela) em 0,1 s; o acelerômetro ainda atrasado, marcando nivelado
+    const attitude = fusion.update(
+      { t: 100, gravity: gravityFor(orientation, 0, 0), rotationRate: { x: 0, y: 0, z: -100 } },
+      orientation
+    );
+    expect(attitude.roll).toBeGreaterThan(9);
+    expect(attitude.roll).toBeLessThan(10.5);
+  });
+
+  it.each(ORIENTATIONS)('%s: um tranco lateral no acelerômetro quase não mexe no cant', (orientation) => {
+    const fusion = createOrientationFusion();
+    const level = gravityFor(orientation, 0, 0);
+    fusion.update({ t: 0, gravity: level, rotationRate: { x: 0, y: 0, z: 0 } }, orientation);
+    // Empurrão para a direita da tela: o oposto do "cima" inclinado do cant horário
+    const cant = CANT_90[orientation];
+    const jolt = { x: level.x - (6 * cant.x) / G, y: level.y - (6 * cant.y) / G, z: level.z };
+    const fused = fusion.update({ t: 100, gravity: jolt, rotationRate: { x: 0, y: 0, z: 0 } }, orientation);
+    expect(Math.abs(attitudeFromGravity(jolt, orientation).roll)).toBeGreaterThan(25);
+    expect(Math.abs(fused.roll)).toBeLessThan(1);
+  });
+
+  it.each(ORIENTATIONS)('%s: o acelerômetro corrige a deriva quando o giroscópio não vê o giro', (orientation) => {
+    const fusion = createOrientationFusion();
+    fusion.update({ t: 0, gravity: gravityFor(orientation, 0, 0), rotationRate: { x: 0, y: 0, z: 0 } }, orientation);
+    const tilted = gravityFor(orientation, 0, 10);
+    let attitude = { pitch: 0, roll: 0 };
+    for (let i = 1; i <= 400; i++) {
+      attitude = fusion.update({ t: i * 100, gravity: tilted, rotationRate: { x: 0, y: 0, z: 0 } }, orientation);
+    }
+    expect(attitude.roll).toBeCloseTo(10, 1);
+  });
+
+  it('reset recomeça pela leitura do acelerômetro', () => {
+    const fusion = createOrientationFusion();
+    fusion.update({ t: 0, gravity: gravityFor('portrait-up', 0, 0) }, 'portrait-up');
+    fusion.reset();
+    const attitude = fusion.update({ t: 100, gravity: gravityFor('portrait-up', 30, 0) }, 'portrait-up');
+    expect(attitude.pitch).toBeCloseTo(30, 6);
+  });
+});
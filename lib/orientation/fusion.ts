@@ -0,0 +1,113 @@
+import type { Vec3 } from '@/lib/stability/strategies';
+
+/**
+ * Fusão acelerômetro + giroscópio para elevação (pitch) e cant (roll) da mira.
+ *
+ * Convenção do aparelho (retrato natural): x para a direita, y para o topo, z saindo da tela.
+ * A câmera traseira aponta para -z. `accelerationIncludingGravity` em repouso aponta para cima.
+ */
+
+export type ScreenOrientationKind = 'portrait-up' | 'portrait-down' | 'landscape-left' | 'landscape-right';
+
+// Atitude em graus. Pitch > 0 = câmera acima do horizonte; roll > 0 = cant no sentido horário
+export interface Attitude {
+  pitch: number;
+  roll: number;
+}
+
+export interface FusionSample {
+  t: number; // ms
+  gravity: Vec3; // accelerationIncludingGravity (m/s²)
+  rotationRate?: Vec3 | null; // graus por segundo, eixos x/y/z do aparelho
+}
+
+// Direções "cima" e "direita" da tela no referencial do aparelho, para cada orientação da interface.
+// landscape-right = topo do aparelho para a esquerda (giro anti-horário); landscape-left = topo para a direita.
+const SCREEN_AXES: Record<ScreenOrientationKind, { up: [number, number]; right: [number, number] }> = {
+  'portrait-up': { up: [0, 1], right: [1, 0] },
+  'portrait-down': { up: [0, -1], right: [-1, 0] },
+  'landscape-right': { up: [1, 0], right: [0, -1] },
+  'landscape-left': { up: [-1, 0], right: [0, 1] },
+};
+
+const RAD = 180 / Math.PI;
+
+// Normaliza um ângulo em graus para (-180, 180]
+export function wrapDegrees(angle: number) {
+  let a = angle % 360;
+  if (a > 180) a -= 360;
+  if (a <= -180) a += 360;
+  return a;
+}
+
+/**
+ * Calcula a atitude a partir do vetor "para cima" (gravidade medida) e da orientação da tela.
+ */
+export function attitudeFromGravity(g: Vec3, orientation: ScreenOrientationKind): Attitude {
+  const norm = Math.hypot(g.x, g.y, g.z);
+  if (norm === 0) return { pitch: 0, roll: 0 };
+
+  // Elevação: ângulo entre o eixo da câmera (-z) e o horizonte; não depende da orientação da tela
+  const pitch = Math.asin(Math.max(-1, Math.min(1, -g.z / norm))) * RAD;
+
+  // Cant: inclinação do "cima" real projetado no plano da tela
+  const { up, right } = SCREEN_AXES[orientation];
+  const alongUp = g.x * up[0] + g.y * up[1];
+  const alongRight = g.x * right[0] + g.y * right[1];
+  const roll = Math.atan2(-alongRight, alongUp) * RAD;
+
+  return { pitch, roll };
+}
+
+// Subtrai a tara (atitude de referência) mantendo o roll em (-180, 180]
+export function applyTare(attitude: Attitude, tare: Attitude): Attitude {
+  return {
+    pitch: attitude.pitch - tare.pitch,
+    roll: wrapDegrees(attitude.roll - tare.roll),
+  };
+}
+
+/**
+ * Filtro complementar sobre o vetor gravidade: o giroscópio propaga a estimativa entre leituras
+ * (responde rápido, sem o ruído do acelerômetro) e o acelerômetro corrige a deriva lentamente.
+ */
+export function createOrientationFusion(gyroWeight = 0.98) {
+  let estimate: Vec3 | null = null;
+  let lastT = 0;
+
+  return {
+    update(sample: FusionSample, orientation: ScreenOrientationKind): Attitude {
+      const measured = sample.gravity;
+
+      if (!estimate || !sample.rotationRate) {
+        estimate = { ...measured };
+      } else {
+        const dt = Math.max(0, (sample.t - lastT) / 1000);
+        const w = {
+          x: sample.rotationRate.x / RAD,
+          y: sample.rotationRate.y / RAD,
+          z: sample.rotationRate.z / RAD,
+        };
+        // Vetor fixo no mundo visto do aparelho girando: dv/dt = -ω × v
+        const predicted = {
+          x: estimate.x - (w.y * estimate.z - w.z * estimate.y) * dt,
+          y: estimate.y - (w.z * estimate.x - w.x * estimate.z) * dt,
+          z: estimate.z - (w.x * estimate.y - w.y * estimate.x) * dt,
+        };
+        estimate = {
+          x: gyroWeight * predicted.x + (1 - gyroWeight) * measured.x,
+          y: gyroWeight * predicted.y + (1 - gyroWeight) * measured.y,
+          z: gyroWeight * predicted.z + (1 - gyroWeight) * measured.z,
+        };
+      }
+
+      lastT = sample.t;
+      return attitudeFromGravity(estimate, orientation);
+    },
+
+    reset() {
+      estimate = null;
+      lastT = 0;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  deleteProfile,
+  loadProfiles,
+  migrateProfiles,
+  PROFILES_KEY,
+  replaceProfiles,
+  saveProfile,
+  updateProfile,
+} from '@/lib/profiles/repository';
+import { migrateProfile, Profile } from '@/lib/profiles/schema';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const legacy = (id: number, name: string) => ({ id, name, zoom: 0, reticle: { shapeIdx: 1 } });
+const current = (id: number, name: string) => migrateProfile(legacy(id, name), id) as Profile;
+
+const stored = async () => JSON.parse((await AsyncStorage.getItem(PROFILES_KEY)) ?? 'null');
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('migrateProfiles', () => {
+  it('descarta entradas que não migram', () => {
+    expect(migrateProfiles([legacy(1, 'A'), null, { zoom: 1 }, legacy(2, 'B')]).map((p) => p.name)).toEqual(['A', 'B']);
+  });
+
+  it('renumera ids repetidos', () => {
+    expect(migrateProfiles([legacy(5, 'A'), legacy(5, 'B'), legacy(6, 'C')]).map((p) => p.id)).toEqual([5, 6, 7]);
+  });
+
+  it('retorna lista vazia para o que não for array', () => {
+    expect(migrateProfiles({ profiles: [] })).toEqual([]);
+  });
+});
+
+describe('loadProfiles', () => {
+  it('retorna lista vazia quando não há nada gravado', async () => {
+    expect(await loadProfiles()).toEqual([]);
+  });
+
+  it('migra perfis antigos e os regrava', async () => {
+    await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify([legacy(1, 'A')]));
+    const profiles = await loadProfiles();
+    expect(profiles).toEqual([current(1, 'A')]);
+    expect(await stored()).toEqual(profiles);
+  });
+
+  it('não regrava perfis que já estão na versão atual', async () => {
+    await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify([current(1, 'A')]));
+    const setItem = jest.mocked(AsyncStorage.setItem);
+    setItem.mockClear();
+    await loadProfiles();
+    expect(setItem).not.toHaveBeenCalled();
+  });
+});
+
+describe('saveProfile', () => {
+  it('acrescenta um perfil novo', async () => {
+    await saveProfile(current(1, 'A'));
+    const profiles = await saveProfile(legacy(2, 'B'));
+    expect(profiles.map((p) => p.name)).toEqual(['A', 'B']);
+    expect(await stored()).toEqual(profiles);
+  });
+
+  it('substitui no lugar o perfil de mesmo id', async () => {
+    await replaceProfiles([current(1, 'A'), current(2, 'B')]);
+    const profiles = await saveProfile({ ...current(1, 'A'), name: 'A2' });
+    expect(profiles.map((p) => p.name)).toEqual(['A2', 'B']);
+  });
+
+  it('recusa entrada inválida sem mexer no que está gravado', async () => {
+    await replaceProfiles([current(1, 'A')]);
+    await expect(saveProfile({ zoom: 1 })).rejects.toThrow('Perfil inválido');
+    expect(await stored()).toEqual([current(1, 'A')]);
+  });
+});
+
+describe('replaceProfiles', () => {
+  it('grava a lista na ordem dada', async () => {
+    const profiles = await replaceProfiles([current(2, 'B'), legacy(1, 'A')]);
+    expect(profiles.map((p) => p.id)).toEqual([2, 1]);
+    expect(await stored()).toEqual(profiles);
+  });
+});
+
+describe('updateProfile', () => {
+  beforeEach(() => replaceProfiles([current(1, 'A'), current(2, 'B')]));
+
+  it('aplica a alteração ao perfil do id', async () => {
+    const profiles = await updateProfile(2, (p) => ({ ...p, favorite: true }));
+    expect(profiles[1].favorite).toBe(true);
+    expect((await stored())[1].favorite).toBe(true);
+  });
+
+  it('falha com id desconhecido', async () => {
+    await expect(updateProfile(3, (p) => p)).rejects.toThrow('Perfil não encontrado: 3');
+  });
+
+  it('recusa alteração que invalida o perfil', async () => {
+    await expect(updateProfile(1, (p) => ({ ...p, zoom: 5 }))).rejects.toThrow('zoom deve estar entre 0 e 1');
+    expect((await stored())[0].zoom).toBe(0);
+  });
+});
+
+describe('deleteProfile', () => {
+  it('remove só o id dado', async () => {
+    await replaceProfiles([current(1, 'A'), current(2, 'B')]);
+    expect((await deleteProfile(1)).map((p) => p.id)).toEqual([2]);
+    expect((await stored()).map((p: Profile) => p.id)).toEqual([2]);
+  });
+
+  it('ignora ids desconhecidos', async () => {
+    await replaceProfiles([current(1, 'A')]);
+    expect(await deleteProfile(9)).toEqual([current(1, 'A')]);
+  });
+});
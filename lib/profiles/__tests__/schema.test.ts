@@ -0,0 +1,153 @@
+import { migrateProfile, Profile, PROFILE_VERSION, validateProfile } from '@/lib/profiles/schema';
+
+// Formatos como foram gravados por cada versão do app
+const V0_TABS = { id: 11, name: 'Abas', zoom: 0.4, reticleType: 'ponto', reticleColor: '#ffff00' };
+
+const V1_OVERLAY = {
+  id: 12,
+  name: '  Overlay  ',
+  zoom: 0.25,
+  reticle: {
+    x: 12,
+    y: -8,
+    shapeIdx: 2,
+    colorIdx: 3,
+    shapes: ['red_dot', 'crosshair', 'circle'],
+    colors: ['#ff0000', '#00ff00', '#0000ff', '#ffffff'],
+  },
+};
+
+const V2 = {
+  version: 2,
+  id: 13,
+  name: 'V2',
+  reticle: {
+    id: 'chevron',
+    x: 3,
+    y: 4,
+    offsetMil: { x: 0.3, y: 0.4 },
+    style: { color: '#00ff00', brightness: 7, thickness: 1.5, outline: 'halo' },
+    autoContrast: true,
+    focalPlane: 'ffp',
+    cant: { enabled: true, tolerance: 3 },
+  },
+  zoom: 0.5,
+  units: 'moa',
+  turret: { mode: 'turret', click: { value: 0.25, unit: 'moa' } },
+  zero: { table: [{ distance: 30, x: 1, y: 2, mil: null }], distance: 30 },
+  ballistics: null,
+  stabilityThresholds: { green: 2, yellow: 9, orange: 18 },
+  tare: { pitch: 1, roll: -2 },
+};
+
+const V3 = { ...V2, version: 3, id: 14, favorite: true, lastUsedAt: 1700000000000 };
+
+describe('migrateProfile', () => {
+  it('converte o perfil da tela de abas (v0)', () => {
+    const profile = migrateProfile(V0_TABS, 1) as Profile;
+    expect(validateProfile(profile)).toBeNull();
+    expect(profile).toMatchObject({
+      version: PROFILE_VERSION,
+      id: 11,
+      name: 'Abas',
+      zoom: 0.4,
+      units: 'mil',
+      favorite: false,
+      lastUsedAt: null,
+      weaponId: null,
+    });
+    expect(profile.reticle.id).toBe('red_dot');
+    expect(profile.reticle.style.color).toBe('#ffff00');
+  });
+
+  it('mantém tipos de retículo desconhecidos como id e troca cores inválidas pela padrão', () => {
+    const profile = migrateProfile({ name: 'X', reticleType: 'custom_one', reticleColor: 'verde' }, 5) as Profile;
+    expect(profile.id).toBe(5);
+    expect(profile.reticle.id).toBe('custom_one');
+    expect(profile.reticle.style.color).toBe('#00ff00');
+  });
+
+  it('converte o perfil do overlay (v1) a partir dos índices de forma e cor', () => {
+    const profile = migrateProfile(V1_OVERLAY, 1) as Profile;
+    expect(validateProfile(profile)).toBeNull();
+    expect(profile.name).toBe('Overlay');
+    expect(profile.reticle).toMatchObject({ id: 'circle', x: 12, y: -8, offsetMil: null, focalPlane: 'sfp' });
+    expect(profile.reticle.style).toEqual({ color: '#ffffff', brightness: 10, thickness: 1, outline: 'none' });
+    expect(profile.turret).toEqual({ mode: 'free', click: { value: 0.1, unit: 'mil' } });
+    expect(profile.zero).toEqual({ table: [], distance: null });
+    expect(profile.ballistics).toBeNull();
+    expect(profile.tare).toBeNull();
+  });
+
+  it('usa a ordem antiga das formas quando o v1 não tem a lista', () => {
+    const profile = migrateProfile({ name: 'Y', reticle: { shapeIdx: 4 } }, 1) as Profile;
+    expect(profile.reticle.id).toBe('chevron');
+    expect(profile.reticle.style.color).toBe('#ff0000');
+  });
+
+  it('prefere shapeId ao índice da forma', () => {
+    const profile = migrateProfile({ name: 'Z', reticle: { shapeIdx: 0, shapeId: 'mil_dot' } }, 1) as Profile;
+    expect(profile.reticle.id).toBe('mil_dot');
+  });
+
+  it('limita valores do v1 fora da faixa', () => {
+    const profile = migrateProfile(
+      { name: 'W', zoom: 3, reticle: { style: { brightness: 40, thickness: 0 }, cant: {} } },
+      1,
+    ) as Profile;
+    expect(profile.zoom).toBe(1);
+    expect(profile.reticle.style.brightness).toBe(10);
+    expect(profile.reticle.style.thickness).toBe(0.5);
+    expect(profile.reticle.cant).toEqual({ enabled: false, tolerance: 2 });
+  });
+
+  it('acrescenta favorito, último uso e arma ao v2', () => {
+    const profile = migrateProfile(V2, 1) as Profile;
+    expect(validateProfile(profile)).toBeNull();
+    expect(profile).toEqual({ ...V2, version: PROFILE_VERSION, favorite: false, lastUsedAt: null, weaponId: null });
+  });
+
+  it('mantém favorito e último uso do v3 e acrescenta a arma', () => {
+    const profile = migrateProfile(V3, 1) as Profile;
+    expect(validateProfile(profile)).toBeNull();
+    expect(profile).toEqual({ ...V3, version: PROFILE_VERSION, weaponId: null });
+  });
+
+  it('devolve perfis atuais sem mudança', () => {
+    const current = migrateProfile(V3, 1) as Profile;
+    expect(migrateProfile({ ...current, weaponId: 7 }, 1)).toEqual({ ...current, weaponId: 7 });
+  });
+
+  it('usa o id reserva quando falta o gravado', () => {
+    expect(migrateProfile({ ...V2, id: undefined }, 99)?.id).toBe(99);
+  });
+
+  it.each([
+    ['não objeto', 'perfil'],
+    ['array', []],
+    ['null', null],
+    ['versão mais nova', { ...V3, version: PROFILE_VERSION + 1 }],
+    ['sem nome', { reticleType: 'cruz' }],
+    ['nome em branco', { ...V2, name: '   ' }],
+  ])('recusa %s', (_, raw) => {
+    expect(migrateProfile(raw, 1)).toBeNull();
+  });
+});
+
+describe('validateProfile', () => {
+  const current = migrateProfile(V3, 1) as Profile;
+
+  it('aceita um perfil atual', () => {
+    expect(validateProfile(current)).toBeNull();
+  });
+
+  it.each([
+    ['version', { ...current, version: 3 }, 'versão de perfil não suportada: 3'],
+    ['zoom', { ...current, zoom: 2 }, 'zoom deve estar entre 0 e 1'],
+    ['color', { ...current, reticle: { ...current.reticle, style: { ...current.reticle.style, color: 'red' } } }, 'reticle.style.color deve ser cor hex'],
+    ['favorite', { ...current, favorite: 'sim' }, 'favorite deve ser booleano'],
+    ['weaponId', { ...current, weaponId: '3' }, 'weaponId deve ser número ou null'],
+  ])('aponta %s inválido', (_, value, reason) => {
+    expect(validateProfile(value)).toBe(reason);
+  });
+});
@@ -0,0 +1,64 @@
+import { MAX_PROFILE_NAME, Profile } from '@/lib/profiles/schema';
+
+// O que fazer com um perfil importado: sem conflito, 'rename' apenas adiciona
+export type ImportDecision = 'rename' | 'overwrite' | 'skip';
+
+// Perfil local com o mesmo nome (o id de outro aparelho raramente coincide, mas também conta)
+export function findConflict(existing: Profile[], incoming: Profile) {
+  const name = incoming.name.trim().toLowerCase();
+  return existing.find((p) => p.name.trim().toLowerCase() === name) ?? existing.find((p) => p.id === incoming.id) ?? null;
+}
+
+function uniqueName(name: string, taken: Profile[]) {
+  const used = new Set(taken.map((p) => p.name.trim().toLowerCase()));
+  if (!used.has(name.trim().toLowerCase())) return name;
+  let n = 2;
+  const withSuffix = (i: number) => `${name.slice(0, MAX_PROFILE_NAME - 5)} (${i})`;
+  while (used.has(withSuffix(n).toLowerCase())) n++;
+  return withSuffix(n);
+}
+
+function uniqueId(id: number, taken: Profile[]) {
+  let candidate = id;
+  while (taken.some((p) => p.id === candidate)) candidate++;
+  return candidate;
+}
+
+/**
+ * Junta perfis importados à lista local. `decisions[i]` vale para `incoming[i]`;
+ * ao substituir, o perfil local mantém o id (e a posição), ficando com o conteúdo importado.
+ * Favorito, último uso e arma são do aparelho local e não vêm no pacote.
+ */
+export function mergeProfiles(existing: Profile[], incoming: Profile[], decisions: ImportDecision[]) {
+  const result = existing.slice();
+  let imported = 0;
+
+  incoming.forEach((profile, i) => {
+    const decision = decisions[i] ?? 'skip';
+    if (decision === 'skip') return;
+
+    const conflict = findConflict(result, profile);
+    if (conflict && decision === 'overwrite') {
+      result[result.indexOf(conflict)] = {
+        ...profile,
+        id: conflict.id,
+        name: conflict.name,
+        favorite: conflict.favorite,
+        lastUsedAt: conflict.lastUsedAt,
+        weaponId: conflict.weaponId,
+      };
+    } else {
+      result.push({
+        ...profile,
+        id: uniqueId(profile.id, result),
+        name: uniqueName(profile.name, result),
+        favorite: false,
+        lastUsedAt: null,
+        weaponId: null,
+      });
+    }
+    imported++;
+  });
+
+  return { profiles: result, imported };
+}
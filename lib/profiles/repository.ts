@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { saveJsonList } from '@/lib/common/storage';
+import { migrateProfile, Profile, validateProfile } from '@/lib/profiles/schema';
+
+export const PROFILES_KEY = 'airsoftProfiles';
+
+const writeProfiles = (profiles: Profile[]) => saveJsonList(PROFILES_KEY, profiles);
+
+/**
+ * Migra uma lista qualquer para Profile[], descartando o que não tem conserto
+ * e renumerando ids repetidos (perfis antigos podiam não ter id).
+ */
+export function migrateProfiles(raw: unknown): Profile[] {
+  if (!Array.isArray(raw)) return [];
+  const base = Date.now();
+  const seen = new Set<number>();
+  const profiles: Profile[] = [];
+  raw.forEach((item, i) => {
+    const profile = migrateProfile(item, base + i);
+    if (!profile) {
+      console.warn('⚠️ Perfil descartado na migração:', item);
+      return;
+    }
+    while (seen.has(profile.id)) profile.id += 1;
+    seen.add(profile.id);
+    profiles.push(profile);
+  });
+  return profiles;
+}
+
+// Lê os perfis já na versão atual; se algo foi migrado, regrava para não migrar de novo
+export async function loadProfiles(): Promise<Profile[]> {
+  const json = await AsyncStorage.getItem(PROFILES_KEY);
+  if (!json) return [];
+  const stored: unknown = JSON.parse(json);
+  const profiles = migrateProfiles(stored);
+  if (JSON.stringify(profiles) !== json) await writeProfiles(profiles);
+  return profiles;
+}
+
+// Cria ou substitui pelo id
+export async function saveProfile(input: unknown): Promise<Profile[]> {
+  const profile = migrateProfile(input, Date.now());
+  if (!profile) throw new Error(`Perfil inválido: ${validateProfile(input) ?? 'formato desconhecido'}`);
+  const profiles = await loadProfiles();
+  const index = profiles.findIndex((p) => p.id === profile.id);
+  if (index >= 0) profiles[index] = profile;
+  else profiles.push(profile);
+  return writeProfiles(profiles);
+}
+
+// Substitui a lista inteira (o overlay edita a lista e manda de volta)
+export async function replaceProfiles(input: unknown[]): Promise<Profile[]> {
+  return writeProfiles(migrateProfiles(input));
+}
+
+export async function updateProfile(id: number, update: (profile: Profile) => Profile): Promise<Profile[]> {
+  const profiles = await loadProfiles();
+  const index = profiles.findIndex((p) => p.id === id);
+  if (index < 0) throw new Error(`Perfil não encontrado: ${id}`);
+  const updated = update(profiles[index]);
+  const reason = validateProfile(updated);
+  if (reason) throw new Error(`Perfil inválido: ${reason}`);
+  profiles[index] = updated;
+  return writeProfiles(profiles);
+}
+
+export async function deleteProfile(id: number): Promise<Profile[]> {
+  return writeProfiles((await loadProfiles()).filter((p) => p.id !== id));
+}
@@ -0,0 +1,242 @@
+/**
+ * Perfil de mira versionado. O retículo é referenciado pelo id estável da biblioteca
+ * (lib/reticles/library.ts), nunca pela posição na lista de formas.
+ *
+ * Versões anteriores (sem campo `version`):
+ * - 0: tela antiga das abas, `{ name, zoom, reticleType, reticleColor }`;
+ * - 1: overlay HTML, `{ id, name, reticle: { x, y, shapeIdx, colorIdx, shapes, colors, ... }, zoom, ... }`.
+ *
+ * A ordem dos perfis é a ordem da lista gravada (o usuário reordena no overlay).
+ */
+
+import type { BallisticParams, TrajectoryPoint } from '@/lib/ballistics/bb';
+import { Fields, isFiniteNumber, isObject } from '@/lib/common/guards';
+import type { AngularUnit } from '@/lib/optics/angular';
+import type { Attitude } from '@/lib/orientation/fusion';
+import type { StabilityThresholds } from '@/lib/stability/engine';
+
+export const PROFILE_VERSION = 4;
+
+// Script para `injectedJavaScriptBeforeContentLoaded`: o overlay grava os perfis com `window.PROFILE_VERSION`
+export const PROFILE_SCHEMA_SCRIPT = `window.PROFILE_VERSION = ${PROFILE_VERSION}; true;`;
+
+export interface Offset {
+  x: number;
+  y: number;
+}
+
+export interface ReticleStyle {
+  color: string;
+  brightness: number; // 1-10
+  thickness: number; // 0.5-3
+  outline: 'none' | 'outline' | 'halo';
+}
+
+export interface ProfileReticle {
+  id: string;
+  x: number; // px no aparelho onde o perfil foi salvo
+  y: number;
+  offsetMil: Offset | null; // o mesmo offset em mil, quando havia calibração de campo de visão
+  style: ReticleStyle;
+  autoContrast: boolean;
+  focalPlane: 'sfp' | 'ffp';
+  cant: { enabled: boolean; tolerance: number };
+}
+
+export interface TurretSettings {
+  mode: 'free' | 'turret';
+  click: { value: number; unit: AngularUnit };
+}
+
+export interface ZeroEntry {
+  distance: number;
+  x: number;
+  y: number;
+  mil: Offset | null;
+}
+
+export interface ProfileBallistics {
+  params: BallisticParams;
+  points: Pick<TrajectoryPoint, 'distance' | 'height' | 'angleMil' | 'velocity'>[] | null;
+  marks: boolean;
+}
+
+export interface Profile {
+  version: typeof PROFILE_VERSION;
+  id: number;
+  name: string;
+  reticle: ProfileReticle;
+  zoom: number; // 0-1, como no slider
+  units: AngularUnit;
+  turret: TurretSettings;
+  zero: { table: ZeroEntry[]; distance: number | null };
+  ballistics: ProfileBallistics | null;
+  stabilityThresholds: StabilityThresholds | null;
+  tare: Attitude | null;
+  favorite: boolean; // aparece na faixa de troca rápida do HUD
+  lastUsedAt: number | null; // epoch ms do último carregamento
+  weaponId: number | null; // arma de lib/weapons/weapon.ts; null = sem arma
+}
+
+export const MAX_PROFILE_NAME = 60;
+
+const DEFAULT_STYLE: ReticleStyle = { color: '#ff0000', brightness: 10, thickness: 1, outline: 'none' };
+const DEFAULT_TURRET: TurretSettings = { mode: 'free', click: { value: 0.1, unit: 'mil' } };
+
+// Ordem das formas do overlay antes da biblioteca declarativa (índice -> id)
+const LEGACY_SHAPES = ['red_dot', 'crosshair', 'circle', 'circle_cross', 'chevron', 'ballistic_1', 'ballistic_2', 'ballistic_3'];
+const LEGACY_COLORS = ['#ff0000', '#00ff00', '#0000ff', '#ffffff', '#ffff00', '#000000', '#ff00ff'];
+
+// Nomes usados pela tela das abas em `reticleType`
+const TABS_RETICLE_IDS: Record<string, string> = {
+  cruz: 'crosshair',
+  ponto: 'red_dot',
+  circulo: 'circle',
+  'círculo': 'circle',
+  chevron: 'chevron',
+};
+
+const numberOr = (value: unknown, fallback: number) => (isFiniteNumber(value) ? value : fallback);
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+const offsetOrNull = (value: unknown): Offset | null =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) ? { x: value.x, y: value.y } : null;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Versão de origem de um perfil sem `version`
+function detectVersion(raw: Fields) {
+  if (isFiniteNumber(raw.version)) return raw.version;
+  if (!isObject(raw.reticle) && ('reticleType' in raw || 'reticleColor' in raw)) return 0;
+  return 1; // overlay HTML ou objeto qualquer: a migração 1 -> 2 preenche o que faltar
+}
+
+// 0 -> 1: perfil da tela das abas vira o formato do overlay
+function migrateV0(raw: Fields): Fields {
+  const type = typeof raw.reticleType === 'string' ? raw.reticleType : 'cruz';
+  return {
+    id: raw.id,
+    name: raw.name,
+    zoom: raw.zoom,
+    reticle: {
+      x: 0,
+      y: 0,
+      shapeId: TABS_RETICLE_IDS[type.toLowerCase()] ?? type,
+      colorIdx: 0,
+      colors: [isColor(raw.reticleColor) ? raw.reticleColor : '#00ff00'],
+    },
+  };
+}
+
+// 1 -> 2: índices de forma/cor viram id e estilo; campos ausentes recebem os padrões
+function migrateV1(raw: Fields): Fields {
+  const reticle = isObject(raw.reticle) ? raw.reticle : {};
+  const shapes = Array.isArray(reticle.shapes) ? reticle.shapes : LEGACY_SHAPES;
+  const colors = Array.isArray(reticle.colors) ? reticle.colors : LEGACY_COLORS;
+  const shapeIdx = numberOr(reticle.shapeIdx, 0);
+  const colorIdx = numberOr(reticle.colorIdx, 0);
+  const id =
+    typeof reticle.shapeId === 'string' && reticle.shapeId
+      ? reticle.shapeId
+      : typeof shapes[shapeIdx] === 'string'
+        ? shapes[shapeIdx]
+        : LEGACY_SHAPES[0];
+  const style = isObject(reticle.style) ? reticle.style : {};
+  const cant = isObject(reticle.cant) ? reticle.cant : {};
+  const turret = isObject(raw.turret) ? raw.turret : {};
+  const click = isObject(turret.click) ? turret.click : {};
+  const zero = isObject(raw.zero) ? raw.zero : {};
+  const outline = ['none', 'outline', 'halo'].includes(style.outline as string) ? style.outline : 'none';
+
+  return {
+    version: 2,
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name.trim().slice(0, MAX_PROFILE_NAME) : raw.name,
+    reticle: {
+      id,
+      x: numberOr(reticle.x, 0),
+      y: numberOr(reticle.y, 0),
+      offsetMil: offsetOrNull(reticle.offsetMil),
+      style: {
+        color: isColor(style.color) ? style.color : isColor(colors[colorIdx]) ? colors[colorIdx] : DEFAULT_STYLE.color,
+        brightness: clamp(numberOr(style.brightness, DEFAULT_STYLE.brightness), 1, 10),
+        thickness: clamp(numberOr(style.thickness, DEFAULT_STYLE.thickness), 0.5, 3),
+        outline,
+      },
+      autoContrast: reticle.autoContrast === true,
+      focalPlane: reticle.focalPlane === 'ffp' ? 'ffp' : 'sfp',
+      cant: { enabled: cant.enabled === true, tolerance: numberOr(cant.tolerance, 2) },
+    },
+    zoom: clamp(numberOr(raw.zoom, 0), 0, 1),
+    units: raw.units === 'moa' ? 'moa' : 'mil',
+    turret: {
+      mode: turret.mode === 'turret' ? 'turret' : 'free',
+      click: {
+        value: numberOr(click.value, DEFAULT_TURRET.click.value),
+        unit: click.unit === 'moa' ? 'moa' : 'mil',
+      },
+    },
+    zero: {
+      table: (Array.isArray(zero.table) ? zero.table : [])
+        .filter((e): e is Fields => isObject(e) && isFiniteNumber(e.distance))
+        .map((e) => ({ distance: e.distance, x: numberOr(e.x, 0), y: numberOr(e.y, 0), mil: offsetOrNull(e.mil) })),
+      distance: isFiniteNumber(zero.distance) ? zero.distance : null,
+    },
+    ballistics: isObject(raw.ballistics) && isObject(raw.ballistics.params) ? raw.ballistics : null,
+    stabilityThresholds: isObject(raw.stabilityThresholds) ? raw.stabilityThresholds : null,
+    tare: isObject(raw.tare) && isFiniteNumber(raw.tare.pitch) && isFiniteNumber(raw.tare.roll) ? raw.tare : null,
+  };
+}
+
+// 2 -> 3: favorito e último uso
+function migrateV2(raw: Fields): Fields {
+  return { ...raw, version: 3, favorite: false, lastUsedAt: null };
+}
+
+// 3 -> 4: perfis passam a pertencer a uma arma
+function migrateV3(raw: Fields): Fields {
+  return { ...raw, version: 4, weaponId: null };
+}
+
+// Migrações em sequência: a posição é a versão de origem
+const MIGRATIONS: ((raw: Fields) => Fields)[] = [migrateV0, migrateV1, migrateV2, migrateV3];
+
+/** Motivo da rejeição, ou null se `value` é um Profile atual válido. */
+export function validateProfile(value: unknown): string | null {
+  if (!isObject(value)) return 'perfil deve ser objeto';
+  if (value.version !== PROFILE_VERSION) return `versão de perfil não suportada: ${String(value.version)}`;
+  if (!isFiniteNumber(value.id)) return 'id deve ser número';
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'nome é obrigatório';
+  if (value.name.length > MAX_PROFILE_NAME) return `nome deve ter até ${MAX_PROFILE_NAME} caracteres`;
+
+  const r = value.reticle;
+  if (!isObject(r)) return 'reticle deve ser objeto';
+  if (typeof r.id !== 'string' || !r.id) return 'reticle.id é obrigatório';
+  if (!isFiniteNumber(r.x) || !isFiniteNumber(r.y)) return 'reticle.x/y devem ser números';
+  if (r.offsetMil !== null && !offsetOrNull(r.offsetMil)) return 'reticle.offsetMil inválido';
+  if (!isObject(r.style) || !isColor(r.style.color)) return 'reticle.style.color deve ser cor hex';
+  if (r.focalPlane !== 'sfp' && r.focalPlane !== 'ffp') return 'reticle.focalPlane inválido';
+
+  if (!isFiniteNumber(value.zoom) || value.zoom < 0 || value.zoom > 1) return 'zoom deve estar entre 0 e 1';
+  if (value.units !== 'mil' && value.units !== 'moa') return 'units inválido';
+  if (!isObject(value.zero) || !Array.isArray(value.zero.table)) return 'zero.table deve ser lista';
+  if (typeof value.favorite !== 'boolean') return 'favorite deve ser booleano';
+  if (value.lastUsedAt !== null && !isFiniteNumber(value.lastUsedAt)) return 'lastUsedAt deve ser número ou null';
+  if (value.weaponId !== null && !isFiniteNumber(value.weaponId)) return 'weaponId deve ser número ou null';
+  return null;
+}
+
+/**
+ * Leva qualquer formato conhecido (ou objeto com ao menos um nome) à versão atual.
+ * Retorna null quando não há como aproveitar o valor.
+ */
+export function migrateProfile(raw: unknown, fallbackId: number): Profile | null {
+  if (!isObject(raw)) return null;
+  const from = detectVersion(raw);
+  if (from > PROFILE_VERSION) return null; // perfil de uma versão mais nova do app
+
+  let profile: Fields = { ...raw, id: isFiniteNumber(raw.id) ? raw.id : fallbackId };
+  for (let v = from; v < PROFILE_VERSION; v++) profile = MIGRATIONS[v](profile);
+  return validateProfile(profile) === null ? (profile as unknown as Profile) : null;
+}
@@ -0,0 +1,147 @@
+import { File } from 'expo-file-system';
+import * as Linking from 'expo-linking';
+import QRCode from 'qrcode';
+
+import { pickJsonFile, shareJsonFile, slug } from '@/lib/common/json-file';
+import { ImportDecision, mergeProfiles } from '@/lib/profiles/merge';
+import { loadProfiles, migrateProfiles, replaceProfiles } from '@/lib/profiles/repository';
+import type { Profile } from '@/lib/profiles/schema';
+import { BUILTIN_RETICLES } from '@/lib/reticles/library';
+import { addImportedReticle, loadCustomReticles } from '@/lib/reticles/store';
+import type { ReticleDefinition } from '@/lib/reticles/types';
+import { isReticleDefinition } from '@/lib/reticles/validate';
+
+/**
+ * Pacote de perfis trocado entre aparelhos (arquivo .json, QR ou link `airsoftprosight://import`).
+ * Leva junto a definição dos retículos personalizados usados, para o perfil abrir igual no outro aparelho.
+ */
+export interface ProfileBundle {
+  format: 'airsoft-pro-sight/profiles';
+  version: 1;
+  profiles: Profile[];
+  reticles: ReticleDefinition[];
+}
+
+const PROFILE_FILE_FORMAT = 'airsoft-pro-sight/profiles';
+
+// Capacidade de um QR versão 40 no nível L (modo byte) com alguma folga
+const MAX_QR_LENGTH = 2800;
+
+export async function buildProfileBundle(profiles: Profile[]): Promise<ProfileBundle> {
+  const custom = await loadCustomReticles();
+  const used = new Set(profiles.map((p) => p.reticle.id));
+  const reticles = custom
+    .filter((r) => used.has(r.id) && !BUILTIN_RETICLES.some((b) => b.id === r.id))
+    .map(({ builtin: _builtin, ...definition }) => definition);
+  return { format: PROFILE_FILE_FORMAT, version: 1, profiles, reticles };
+}
+
+/**
+ * Grava o pacote em documents/profiles e abre a folha de compartilhamento do sistema.
+ */
+export async function exportProfileBundle(bundle: ProfileBundle) {
+  const single = bundle.profiles.length === 1;
+  const name = single ? bundle.profiles[0].name : 'perfis';
+  const title = single ? `Perfil ${name}` : `${bundle.profiles.length} perfis`;
+  const file = await shareJsonFile('profiles', slug(name, 'perfil'), bundle, title);
+  console.log('📤 Perfis exportados:', file.uri);
+  return file;
+}
+
+// Aceita o pacote acima, um perfil solto ou uma lista de perfis (qualquer versão)
+export function parseProfileBundle(text: string): ProfileBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Arquivo não é JSON válido');
+  }
+
+  const isBundle =
+    typeof data === 'object' && data !== null && (data as Partial<ProfileBundle>).format === PROFILE_FILE_FORMAT;
+  const rawProfiles = isBundle ? (data as ProfileBundle).profiles : Array.isArray(data) ? data : [data];
+  const rawReticles = isBundle && Array.isArray((data as ProfileBundle).reticles) ? (data as ProfileBundle).reticles : [];
+
+  const profiles = migrateProfiles(rawProfiles);
+  if (profiles.length === 0) throw new Error('Nenhum perfil válido no arquivo');
+  return { format: PROFILE_FILE_FORMAT, version: 1, profiles, reticles: rawReticles.filter(isReticleDefinition) };
+}
+
+/**
+ * Abre o seletor de arquivos do sistema e lê um pacote de perfis .json.
+ * Retorna null se o usuário cancelar.
+ */
+export async function pickProfileFile(): Promise<ProfileBundle | null> {
+  const text = await pickJsonFile();
+  return text === null ? null : parseProfileBundle(text);
+}
+
+// JSON em base64url (UTF-8), para caber em query string e QR
+const encodeData = (text: string) =>
+  btoa(unescape(encodeURIComponent(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeData = (data: string) =>
+  decodeURIComponent(escape(atob(data.replace(/-/g, '+').replace(/_/g, '/'))));
+
+// Link de importação com o pacote embutido; a curva balística é recalculável e fica de fora
+export function profileLink(bundle: ProfileBundle) {
+  const compact = {
+    ...bundle,
+    profiles: bundle.profiles.map((p) => (p.ballistics ? { ...p, ballistics: { ...p.ballistics, points: null } } : p)),
+  };
+  return Linking.createURL('import', { scheme: 'airsoftprosight', queryParams: { data: encodeData(JSON.stringify(compact)) } });
+}
+
+export function isImportLink(url: string) {
+  const { hostname, path } = Linking.parse(url);
+  return hostname === 'import' || path === 'import';
+}
+
+/**
+ * Lê o pacote embutido em um link `airsoftprosight://import?data=<base64url>`.
+ * Retorna null se o link não é de importação. O link só carrega dados: nada é baixado
+ * nem lido do aparelho a partir dele.
+ */
+export function readImportLink(url: string): ProfileBundle | null {
+  if (!isImportLink(url)) return null;
+  const data = Linking.parse(url).queryParams?.data;
+  if (typeof data === 'string' && data) return parseProfileBundle(decodeData(data));
+  throw new Error('Link de importação sem dados');
+}
+
+// Arquivo .json aberto com o app pelo sistema ("Abrir com"), entregue como URL de abertura
+export function isSharedFile(url: string) {
+  return url.startsWith('content://') || url.startsWith('file://');
+}
+
+export async function readSharedProfileFile(url: string): Promise<ProfileBundle> {
+  return parseProfileBundle(await new File(url).text());
+}
+
+// QR do link de importação como SVG, desenhado pelo overlay
+export async function profileQrSvg(bundle: ProfileBundle) {
+  const link = profileLink(bundle);
+  if (link.length > MAX_QR_LENGTH) throw new Error('Perfil grande demais para QR; exporte como arquivo');
+  return QRCode.toString(link, { type: 'svg', errorCorrectionLevel: 'L', margin: 2 });
+}
+
+/**
+ * Grava um pacote importado: retículos primeiro (ids que colidem com outro desenho são renomeados
+ * e os perfis passam a apontar para o novo id), depois os perfis conforme as decisões de conflito.
+ */
+export async function applyProfileImport(bundle: ProfileBundle, decisions: ImportDecision[]) {
+  const custom = await loadCustomReticles();
+  const remap = new Map<string, string>();
+  for (const reticle of bundle.reticles) {
+    const same = custom.find((r) => r.id === reticle.id);
+    if (same && JSON.stringify(same.elements) === JSON.stringify(reticle.elements)) continue;
+    const saved = await addImportedReticle(reticle);
+    if (saved.id !== reticle.id) remap.set(reticle.id, saved.id);
+  }
+
+  const incoming = bundle.profiles.map((p) =>
+    remap.has(p.reticle.id) ? { ...p, reticle: { ...p.reticle, id: remap.get(p.reticle.id)! } } : p
+  );
+  const { profiles, imported } = mergeProfiles(await loadProfiles(), incoming, decisions);
+  return { profiles: await replaceProfiles(profiles), imported };
+}
@@ -0,0 +1,99 @@
+import type { ReticleDefinition, ReticleElement } from '@/lib/reticles/types';
+
+const line = (x1: number, y1: number, x2: number, y2: number, width?: number): ReticleElement =>
+  width === undefined ? { kind: 'line', x1, y1, x2, y2 } : { kind: 'line', x1, y1, x2, y2, width };
+
+const dot = (cx: number, cy: number, r: number): ReticleElement => ({ kind: 'dot', cx, cy, r });
+
+const base = { size: 100, center: { x: 50, y: 50 }, strokeWidth: 2, builtin: true };
+
+// Os 8 retículos originais do overlay, agora como dados. Os ids são os nomes antigos das formas.
+export const BUILTIN_RETICLES: ReticleDefinition[] = [
+  {
+    ...base,
+    id: 'red_dot',
+    name: 'Ponto Vermelho',
+    elements: [dot(50, 50, 3)],
+  },
+  {
+    ...base,
+    id: 'crosshair',
+    name: 'Cruz',
+    elements: [line(50, 10, 50, 90), line(10, 50, 90, 50)],
+  },
+  {
+    ...base,
+    id: 'circle',
+    name: 'Círculo',
+    elements: [{ kind: 'circle', cx: 50, cy: 50, r: 30 }, dot(50, 50, 2)],
+  },
+  {
+    ...base,
+    id: 'circle_cross',
+    name: 'Círculo + Cruz',
+    elements: [{ kind: 'circle', cx: 50, cy: 50, r: 30 }, line(50, 20, 50, 80), line(20, 50, 80, 50)],
+  },
+  {
+    ...base,
+    id: 'chevron',
+    name: 'Chevron',
+    elements: [
+      { kind: 'polyline', points: [[35, 60], [50, 40], [65, 60]], width: 4 },
+      dot(50, 40, 1),
+    ],
+  },
+  {
+    ...base,
+    id: 'ballistic_1',
+    name: 'Balístico 1',
+    elements: [
+      line(50, 50, 90, 50),
+      line(10, 50, 30, 50),
+      line(30, 50, 30, 60),
+      line(30, 60, 10, 60),
+      line(10, 60, 10, 50),
+      line(10, 52, 15, 52, 1),
+      line(10, 54, 20, 54, 1),
+      line(10, 56, 25, 56, 1),
+      line(10, 58, 28, 58, 1),
+      { kind: 'polyline', points: [[50, 45], [55, 50], [50, 55]] },
+      line(50, 55, 50, 70),
+      { kind: 'polyline', points: [[48, 52], [50, 50], [52, 52]], width: 1 },
+    ],
+  },
+  {
+    ...base,
+    id: 'ballistic_2',
+    name: 'Balístico 2',
+    elements: [
+      line(50, 10, 50, 40),
+      line(50, 60, 50, 90),
+      line(10, 50, 40, 50),
+      line(60, 50, 90, 50),
+      dot(50, 50, 1),
+      dot(50, 45, 1),
+      dot(50, 40, 1),
+      dot(50, 55, 1),
+      dot(50, 60, 1),
+      dot(45, 50, 1),
+      dot(40, 50, 1),
+      dot(55, 50, 1),
+      dot(60, 50, 1),
+    ],
+  },
+  {
+    ...base,
+    id: 'ballistic_3',
+    name: 'Balístico 3',
+    elements: [
+      line(50, 10, 50, 90),
+      line(10, 50, 90, 50),
+      { kind: 'holdover', y: 55, halfWidth: 5 },
+      { kind: 'holdover', y: 60, halfWidth: 10 },
+      { kind: 'holdover', y: 65, halfWidth: 15 },
+    ],
+  },
+];
+
+// Script para `injectedJavaScriptBeforeContentLoaded`: o overlay lê `window.BUILTIN_RETICLES` ao montar o State
+export const RETICLE_LIBRARY_SCRIPT = `window.BUILTIN_RETICLES = ${JSON.stringify(BUILTIN_RETICLES)}; true;`;
@@ -0,0 +1,48 @@
+import { loadJsonList, saveJsonList } from '@/lib/common/storage';
+import { BUILTIN_RETICLES } from '@/lib/reticles/library';
+import type { ReticleDefinition } from '@/lib/reticles/types';
+import { isReticleDefinition } from '@/lib/reticles/validate';
+
+// Retículos criados no editor ou importados (os embutidos nunca são gravados)
+export const CUSTOM_RETICLES_KEY = 'airsoftReticles';
+
+export function loadCustomReticles(): Promise<ReticleDefinition[]> {
+  return loadJsonList(CUSTOM_RETICLES_KEY, isReticleDefinition);
+}
+
+const writeCustomReticles = (reticles: ReticleDefinition[]) => saveJsonList(CUSTOM_RETICLES_KEY, reticles);
+
+// Garante um id que não colida com os embutidos nem com os já salvos
+export function uniqueReticleId(id: string, taken: ReticleDefinition[]) {
+  const used = new Set([...BUILTIN_RETICLES, ...taken].map((r) => r.id));
+  if (!used.has(id)) return id;
+  let n = 2;
+  while (used.has(`${id}_${n}`)) n++;
+  return `${id}_${n}`;
+}
+
+// Insere ou substitui pelo id. Ids de embutidos são recusados.
+export async function saveCustomReticle(reticle: ReticleDefinition) {
+  if (BUILTIN_RETICLES.some((r) => r.id === reticle.id)) {
+    throw new Error(`"${reticle.id}" é um retículo embutido`);
+  }
+  const reticles = await loadCustomReticles();
+  const entry = { ...reticle, builtin: false };
+  const index = reticles.findIndex((r) => r.id === reticle.id);
+  if (index >= 0) reticles[index] = entry;
+  else reticles.push(entry);
+  return writeCustomReticles(reticles);
+}
+
+export async function deleteCustomReticle(id: string) {
+  const reticles = await loadCustomReticles();
+  return writeCustomReticles(reticles.filter((r) => r.id !== id));
+}
+
+// Adiciona um retículo importado, renomeando o id se já existir
+export async function addImportedReticle(reticle: ReticleDefinition) {
+  const reticles = await loadCustomReticles();
+  const entry = { ...reticle, id: uniqueReticleId(reticle.id, reticles), builtin: false };
+  await writeCustomReticles([...reticles, entry]);
+  return entry;
+}
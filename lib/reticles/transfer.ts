@@ -0,0 +1,51 @@
+import { pickJsonFile, shareJsonFile, slug } from '@/lib/common/json-file';
+import type { ReticleDefinition } from '@/lib/reticles/types';
+import { validateReticleDefinition } from '@/lib/reticles/validate';
+
+// Formato do arquivo .json trocado entre aparelhos
+export interface ReticleFile {
+  format: 'airsoft-pro-sight/reticle';
+  version: 1;
+  reticle: ReticleDefinition;
+}
+
+const RETICLE_FILE_FORMAT = 'airsoft-pro-sight/reticle';
+
+/**
+ * Grava o retículo em documents/reticles e abre a folha de compartilhamento do sistema.
+ */
+export async function exportReticle(reticle: ReticleDefinition) {
+  const { builtin: _builtin, ...definition } = reticle;
+  const payload: ReticleFile = { format: RETICLE_FILE_FORMAT, version: 1, reticle: definition };
+  const file = await shareJsonFile('reticles', slug(reticle.name, 'reticulo'), payload, `Retículo ${reticle.name}`);
+  console.log('📤 Retículo exportado:', file.uri);
+  return file;
+}
+
+// Aceita o arquivo exportado acima ou uma definição "crua" (JSON do próprio retículo)
+export function parseReticleFile(text: string): ReticleDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Arquivo não é JSON válido');
+  }
+
+  const candidate =
+    typeof data === 'object' && data !== null && (data as Partial<ReticleFile>).format === RETICLE_FILE_FORMAT
+      ? (data as ReticleFile).reticle
+      : data;
+
+  const reason = validateReticleDefinition(candidate);
+  if (reason) throw new Error(`Retículo inválido: ${reason}`);
+  return candidate as ReticleDefinition;
+}
+
+/**
+ * Abre o seletor de arquivos do sistema e lê um retículo .json.
+ * Retorna null se o usuário cancelar.
+ */
+export async function pickReticleFile(): Promise<ReticleDefinition | null> {
+  const text = await pickJsonFile();
+  return text === null ? null : parseReticleFile(text);
+}
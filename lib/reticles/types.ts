@@ -0,0 +1,30 @@
+/**
+ * Retículos declarativos. Coordenadas em unidades de retículo dentro de uma caixa `size`×`size`;
+ * `center` é o ponto de mira. Com escala 1, uma unidade = 1 px na tela.
+ * O renderizador fica no overlay (`ReticleRenderer` em app/index.html).
+ */
+
+export type ReticleElement =
+  // Traço reto; `width` sobrescreve a espessura padrão do retículo
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number }
+  // Círculo vazado
+  | { kind: 'circle'; cx: number; cy: number; r: number; width?: number }
+  // Ponto preenchido
+  | { kind: 'dot'; cx: number; cy: number; r: number }
+  // Linha poligonal aberta (chevrons, ganchos)
+  | { kind: 'polyline'; points: [number, number][]; width?: number }
+  | { kind: 'text'; x: number; y: number; text: string; size?: number }
+  // Marca horizontal de compensação abaixo do centro; `distance` em metros quando conhecida
+  | { kind: 'holdover'; y: number; halfWidth: number; distance?: number; label?: string; width?: number };
+
+export type ReticleElementKind = ReticleElement['kind'];
+
+export interface ReticleDefinition {
+  id: string;
+  name: string;
+  size: number;
+  center: { x: number; y: number };
+  strokeWidth: number;
+  elements: ReticleElement[];
+  builtin?: boolean;
+}
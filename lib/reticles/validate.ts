@@ -0,0 +1,67 @@
+import { isFiniteNumber, isObject } from '@/lib/common/guards';
+import type { ReticleDefinition } from '@/lib/reticles/types';
+
+const optionalNumber = (value: unknown) => value === undefined || isFiniteNumber(value);
+
+// Limites para arquivos importados: evita travar o overlay com retículos gigantes
+export const MAX_RETICLE_ELEMENTS = 500;
+const MAX_RETICLE_SIZE = 1000;
+
+function validateElement(el: unknown): string | null {
+  if (!isObject(el)) return 'elemento deve ser objeto';
+
+  switch (el.kind) {
+    case 'line':
+      return [el.x1, el.y1, el.x2, el.y2].every(isFiniteNumber) && optionalNumber(el.width)
+        ? null
+        : 'line precisa de x1/y1/x2/y2 numéricos';
+    case 'circle':
+      return [el.cx, el.cy, el.r].every(isFiniteNumber) && optionalNumber(el.width) ? null : 'circle precisa de cx/cy/r';
+    case 'dot':
+      return [el.cx, el.cy, el.r].every(isFiniteNumber) ? null : 'dot precisa de cx/cy/r';
+    case 'polyline':
+      return Array.isArray(el.points) &&
+        el.points.length >= 2 &&
+        el.points.every((p) => Array.isArray(p) && p.length === 2 && p.every(isFiniteNumber)) &&
+        optionalNumber(el.width)
+        ? null
+        : 'polyline precisa de ao menos 2 pontos [x, y]';
+    case 'text':
+      return isFiniteNumber(el.x) && isFiniteNumber(el.y) && typeof el.text === 'string' && optionalNumber(el.size)
+        ? null
+        : 'text precisa de x/y e texto';
+    case 'holdover':
+      if (!isFiniteNumber(el.y) || !isFiniteNumber(el.halfWidth)) return 'holdover precisa de y/halfWidth';
+      if (!optionalNumber(el.distance) || !optionalNumber(el.width)) return 'holdover com distance/width inválidos';
+      return el.label === undefined || typeof el.label === 'string' ? null : 'holdover.label deve ser string';
+    default:
+      return `tipo de elemento desconhecido: ${String(el.kind)}`;
+  }
+}
+
+/**
+ * Valida uma definição de retículo vinda do overlay ou de um arquivo importado.
+ * Retorna null se válida, ou o motivo da rejeição.
+ */
+export function validateReticleDefinition(value: unknown): string | null {
+  if (!isObject(value)) return 'retículo deve ser objeto';
+  if (typeof value.id !== 'string' || !value.id.trim()) return 'id é obrigatório';
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'name é obrigatório';
+  if (!isFiniteNumber(value.size) || value.size <= 0 || value.size > MAX_RETICLE_SIZE) return 'size inválido';
+  if (!isObject(value.center) || !isFiniteNumber(value.center.x) || !isFiniteNumber(value.center.y)) {
+    return 'center deve ter x e y numéricos';
+  }
+  if (!isFiniteNumber(value.strokeWidth) || value.strokeWidth <= 0) return 'strokeWidth inválido';
+  if (!Array.isArray(value.elements)) return 'elements deve ser lista';
+  if (value.elements.length > MAX_RETICLE_ELEMENTS) return `no máximo ${MAX_RETICLE_ELEMENTS} elementos`;
+
+  for (const [i, el] of value.elements.entries()) {
+    const reason = validateElement(el);
+    if (reason) return `elements[${i}]: ${reason}`;
+  }
+  return null;
+}
+
+export function isReticleDefinition(value: unknown): value is ReticleDefinition {
+  return validateReticleDefinition(value) === null;
+}
@@ -0,0 +1,85 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  appendShot,
+  endSession,
+  findOpenSession,
+  loadSessions,
+  loadSessionShots,
+  SESSIONS_KEY,
+  startSession,
+} from '@/lib/sessions/store';
+import type { ShotEvent } from '@/lib/sessions/summary';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const shot = (t: number, stability: number): ShotEvent => ({
+  t,
+  source: 'tap',
+  profileId: null,
+  profileName: null,
+  distance: null,
+  stability,
+  pitch: 0,
+  roll: 0,
+  marker: null,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  // O id da sessão vem de Date.now(); duas sessões no mesmo milissegundo colidiriam
+  let now = 1_700_000_000_000;
+  jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('appendShot', () => {
+  it('grava os dois tiros quando chegam ao mesmo tempo', async () => {
+    const { id } = await startSession(null);
+
+    const [, last] = await Promise.all([appendShot(id, shot(1, 2)), appendShot(id, shot(2, 4))]);
+
+    expect((await loadSessionShots(id)).map((s) => s.t)).toEqual([1, 2]);
+    expect(last.summary.shots).toBe(2);
+    expect(last.summary.avgStability).toBe(3);
+  });
+
+  it('um tiro que falha não trava os seguintes', async () => {
+    const { id } = await startSession(null);
+
+    await expect(appendShot('inexistente', shot(1, 2))).rejects.toThrow('Sessão não encontrada');
+    expect((await appendShot(id, shot(2, 4))).summary.shots).toBe(1);
+  });
+});
+
+describe('sessões', () => {
+  it('iniciar uma sessão encerra a que ficou aberta', async () => {
+    const first = await startSession('A');
+    const second = await startSession('B');
+
+    const sessions = await loadSessions();
+    expect(sessions.find((s) => s.id === first.id)?.endedAt).not.toBeNull();
+    expect((await findOpenSession())?.id).toBe(second.id);
+  });
+
+  it('tiro enfileirado depois do encerramento fica na sessão encerrada', async () => {
+    const { id } = await startSession(null);
+
+    const [ended, withShot] = await Promise.all([endSession(id), appendShot(id, shot(1, 2))]);
+
+    expect(withShot.endedAt).toBe(ended.endedAt);
+    expect(await findOpenSession()).toBeNull();
+  });
+
+  it('descarta entradas corrompidas em vez de quebrar o histórico', async () => {
+    const { id } = await startSession(null);
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify([null, { id: 1 }, ...(await loadSessions())]));
+    await AsyncStorage.setItem(`airsoftSessionShots:${id}`, JSON.stringify([shot(1, 2), { t: 'x' }]));
+
+    expect((await loadSessions()).map((s) => s.id)).toEqual([id]);
+    expect(await loadSessionShots(id)).toHaveLength(1);
+  });
+});
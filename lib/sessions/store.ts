@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { isFiniteNumber, isObject } from '@/lib/common/guards';
+import { loadJsonList, saveJsonList } from '@/lib/common/storage';
+import { EMPTY_SUMMARY, isShotEvent, SessionSummary, ShotEvent, summarizeShots } from '@/lib/sessions/summary';
+
+// Índice das sessões; os tiros ficam numa chave por sessão para não regravar o histórico a cada disparo
+export const SESSIONS_KEY = 'airsoftSessions';
+const shotsKey = (id: string) => `airsoftSessionShots:${id}`;
+
+export interface ShootingSession {
+  id: string;
+  startedAt: number;
+  endedAt: number | null; // null = sessão em andamento
+  profileName: string | null;
+  summary: SessionSummary;
+}
+
+const isNullableNumber = (value: unknown) => value === null || isFiniteNumber(value);
+
+const isSessionSummary = (value: unknown): value is SessionSummary =>
+  isObject(value) &&
+  isFiniteNumber(value.shots) &&
+  isNullableNumber(value.avgStability) &&
+  (value.group === null || isObject(value.group)) &&
+  (value.groupUnit === null || value.groupUnit === 'mil' || value.groupUnit === 'px');
+
+export const isShootingSession = (value: unknown): value is ShootingSession =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.startedAt) &&
+  isNullableNumber(value.endedAt) &&
+  (value.profileName === null || typeof value.profileName === 'string') &&
+  isSessionSummary(value.summary);
+
+export function loadSessions(): Promise<ShootingSession[]> {
+  return loadJsonList(SESSIONS_KEY, isShootingSession);
+}
+
+const saveSessions = (sessions: ShootingSession[]) => saveJsonList(SESSIONS_KEY, sessions);
+
+export function loadSessionShots(id: string): Promise<ShotEvent[]> {
+  return loadJsonList(shotsKey(id), isShotEvent);
+}
+
+/**
+ * Toda gravação lê a lista, altera e regrava. Dois tiros seguidos (marcador + tecla de volume)
+ * leriam a mesma lista e um sobrescreveria o outro; por isso as gravações entram numa fila única.
+ */
+let writes: Promise<unknown> = Promise.resolve();
+
+function queued<T>(task: () => Promise<T>): Promise<T> {
+  const result = writes.then(task);
+  // Uma gravação que falha não trava as seguintes
+  writes = result.catch(() => undefined);
+  return result;
+}
+
+// Sessão aberta de uma execução anterior (app fechado sem encerrar)
+export async function findOpenSession() {
+  return (await loadSessions()).find((s) => s.endedAt === null) ?? null;
+}
+
+export function startSession(profileName: string | null): Promise<ShootingSession> {
+  return queued(async () => {
+    const now = Date.now();
+    // Só uma sessão aberta por vez: a anterior é encerrada agora
+    const sessions = (await loadSessions()).map((s) => (s.endedAt === null ? { ...s, endedAt: now } : s));
+    const session: ShootingSession = { id: String(now), startedAt: now, endedAt: null, profileName, summary: EMPTY_SUMMARY };
+    await saveSessions([...sessions, session]);
+    return session;
+  });
+}
+
+async function updateSession(id: string, update: (session: ShootingSession) => ShootingSession) {
+  const sessions = await loadSessions();
+  const index = sessions.findIndex((s) => s.id === id);
+  if (index < 0) throw new Error(`Sessão não encontrada: ${id}`);
+  sessions[index] = update(sessions[index]);
+  await saveSessions(sessions);
+  return sessions[index];
+}
+
+export function appendShot(id: string, shot: ShotEvent) {
+  return queued(async () => {
+    const shots = await saveJsonList(shotsKey(id), [...(await loadSessionShots(id)), shot]);
+    return updateSession(id, (s) => ({ ...s, summary: summarizeShots(shots) }));
+  });
+}
+
+export function endSession(id: string) {
+  return queued(() => updateSession(id, (s) => ({ ...s, endedAt: Date.now() })));
+}
+
+export function deleteSession(id: string) {
+  return queued(async () => {
+    await saveSessions((await loadSessions()).filter((s) => s.id !== id));
+    await AsyncStorage.removeItem(shotsKey(id));
+  });
+}
@@ -0,0 +1,83 @@
+import { Fields, isFiniteNumber, isObject } from '@/lib/common/guards';
+import { groupStats, GroupStats, scaleGroupStats } from '@/lib/shooting/group';
+
+export type ShotSource = 'marker' | 'volume' | 'tap';
+
+// Impacto marcado na tela, relativo à mira (mesmo formato de State.markers no overlay)
+export interface ShotMarker {
+  x: number;
+  y: number;
+  mil: { x: number; y: number } | null;
+}
+
+export interface ShotEvent {
+  t: number; // epoch ms
+  source: ShotSource;
+  profileId: number | null;
+  profileName: string | null;
+  distance: number | null; // m, distância do alvo selecionada no HUD
+  stability: number; // pontuação do medidor no disparo
+  pitch: number;
+  roll: number;
+  marker: ShotMarker | null;
+}
+
+const isNullableNumber = (value: unknown) => value === null || isFiniteNumber(value);
+
+const isShotMarker = (value: unknown) =>
+  value === null ||
+  (isObject(value) &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    (value.mil === null || (isObject(value.mil) && isFiniteNumber(value.mil.x) && isFiniteNumber(value.mil.y))));
+
+/** Motivo da rejeição, ou null se `value` é um tiro válido. O horário `t` é carimbado no nativo. */
+export function validateShot(value: unknown): string | null {
+  if (!isObject(value)) return 'shot deve ser objeto';
+  if (value.source !== 'marker' && value.source !== 'volume' && value.source !== 'tap') return 'source inválido';
+  if (![value.stability, value.pitch, value.roll].every(isFiniteNumber)) return 'stability/pitch/roll devem ser números';
+  if (!isNullableNumber(value.profileId) || !isNullableNumber(value.distance)) {
+    return 'profileId/distance devem ser números ou null';
+  }
+  if (value.profileName !== null && typeof value.profileName !== 'string') return 'profileName deve ser string ou null';
+  return isShotMarker(value.marker) ? null : 'marker inválido';
+}
+
+export const isShotEvent = (value: unknown): value is ShotEvent =>
+  validateShot(value) === null && isFiniteNumber((value as Fields).t);
+
+export interface SessionSummary {
+  shots: number;
+  avgStability: number | null;
+  group: GroupStats | null; // só dos tiros com marcador
+  groupUnit: 'mil' | 'px' | null;
+}
+
+export const EMPTY_SUMMARY: SessionSummary = { shots: 0, avgStability: null, group: null, groupUnit: null };
+
+/**
+ * Resume uma sessão. O grupo usa mil quando todos os marcadores foram calibrados;
+ * misturar px de zooms diferentes não daria um tamanho de grupo comparável.
+ */
+export function summarizeShots(shots: ShotEvent[]): SessionSummary {
+  if (shots.length === 0) return EMPTY_SUMMARY;
+
+  const avgStability = shots.reduce((sum, s) => sum + s.stability, 0) / shots.length;
+  const markers = shots.map((s) => s.marker).filter((m): m is ShotMarker => m !== null);
+  const angular = markers.length > 0 && markers.every((m) => m.mil !== null);
+  const group = angular
+    ? groupStats(markers.map((m) => m.mil!))
+    : groupStats(markers.map((m) => ({ x: m.x, y: m.y })));
+
+  return {
+    shots: shots.length,
+    avgStability,
+    group,
+    groupUnit: group ? (angular ? 'mil' : 'px') : null,
+  };
+}
+
+// Tamanho do grupo em MOA para exibir ao lado do valor em mil
+export function groupInMoa(group: GroupStats): GroupStats {
+  return scaleGroupStats(group, (180 * 60) / (Math.PI * 1000));
+}
@@ -0,0 +1,60 @@
+import { GROUP_STATS_SCRIPT, groupStats, scaleGroupStats, ShotPoint } from '@/lib/shooting/group';
+
+// Roda o script injetado num `window` isolado, como o overlay faz
+function injectedGroupStats(): typeof groupStats {
+  const window: { groupStats?: typeof groupStats } = {};
+  new Function('window', GROUP_STATS_SCRIPT)(window);
+  return window.groupStats!;
+}
+
+const GROUP: ShotPoint[] = [
+  { x: 0, y: 0 },
+  { x: 4, y: 0 },
+  { x: 4, y: 3 },
+  { x: 0, y: 3 },
+];
+
+describe('groupStats', () => {
+  it('retorna null sem impactos', () => {
+    expect(groupStats([])).toBeNull();
+  });
+
+  it('um impacto só não tem dispersão', () => {
+    expect(groupStats([{ x: 2, y: -1 }])).toEqual({
+      count: 1,
+      mpi: { x: 2, y: -1 },
+      extremeSpread: 0,
+      meanRadius: 0,
+      sdX: 0,
+      sdY: 0,
+      sdRadial: 0,
+    });
+  });
+
+  it('mede um grupo retangular', () => {
+    const stats = groupStats(GROUP)!;
+    expect(stats.count).toBe(4);
+    expect(stats.mpi).toEqual({ x: 2, y: 1.5 });
+    expect(stats.extremeSpread).toBe(5);
+    expect(stats.meanRadius).toBe(2.5);
+    // Desvio amostral: 4 valores a ±2 (x) e ±1.5 (y) da média
+    expect(stats.sdX).toBeCloseTo(Math.sqrt(16 / 3));
+    expect(stats.sdY).toBeCloseTo(Math.sqrt(9 / 3));
+    expect(stats.sdRadial).toBeCloseTo(Math.sqrt(25 / 3));
+  });
+
+  it('converte todas as medidas para outra unidade', () => {
+    const stats = scaleGroupStats(groupStats(GROUP)!, 0.5);
+    expect(stats).toMatchObject({ count: 4, mpi: { x: 1, y: 0.75 }, extremeSpread: 2.5, meanRadius: 1.25 });
+    expect(stats.sdX).toBeCloseTo(Math.sqrt(16 / 3) / 2);
+  });
+});
+
+describe('GROUP_STATS_SCRIPT', () => {
+  it('dá ao overlay os mesmos resultados da função nativa', () => {
+    const overlayGroupStats = injectedGroupStats();
+    for (const points of [[], [{ x: 1, y: 1 }], GROUP, [{ x: -3.2, y: 7 }, { x: 10.5, y: -2 }, { x: 0.4, y: 0.1 }]]) {
+      expect(overlayGroupStats(points)).toEqual(groupStats(points));
+    }
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Estatísticas de agrupamento. Os impactos são offsets relativos ao ponto de mira,
+ * na mesma unidade de entrada (px ou mil); y positivo = abaixo da mira.
+ */
+
+export interface ShotPoint {
+  x: number;
+  y: number;
+}
+
+export interface GroupStats {
+  count: number;
+  mpi: ShotPoint; // ponto médio de impacto
+  extremeSpread: number; // maior distância entre dois impactos
+  meanRadius: number; // distância média até o MPI
+  sdX: number;
+  sdY: number;
+  sdRadial: number; // desvio padrão radial em torno do MPI
+}
+
+// Autocontida: o overlay roda esta mesma função (GROUP_STATS_SCRIPT). 'show source' faz o Hermes
+// manter o fonte no bytecode, senão `toString()` devolve só a assinatura.
+export function groupStats(points: ShotPoint[]): GroupStats | null {
+  'show source';
+  const n = points.length;
+  if (n === 0) return null;
+
+  const mpi = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / n,
+    y: points.reduce((sum, p) => sum + p.y, 0) / n,
+  };
+
+  let extremeSpread = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      extremeSpread = Math.max(extremeSpread, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+    }
+  }
+
+  const meanRadius = points.reduce((sum, p) => sum + Math.hypot(p.x - mpi.x, p.y - mpi.y), 0) / n;
+
+  // Desvio amostral (n - 1); com um impacto só não há dispersão
+  const variance = (values: number[], mean: number) =>
+    n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+  const varX = variance(points.map((p) => p.x), mpi.x);
+  const varY = variance(points.map((p) => p.y), mpi.y);
+
+  return {
+    count: n,
+    mpi,
+    extremeSpread,
+    meanRadius,
+    sdX: Math.sqrt(varX),
+    sdY: Math.sqrt(varY),
+    sdRadial: Math.sqrt(varX + varY),
+  };
+}
+
+// Script para `injectedJavaScriptBeforeContentLoaded`: o painel de grupo do overlay usa `window.groupStats`
+export const GROUP_STATS_SCRIPT = `window.groupStats = ${groupStats.toString()}; true;`;
+
+// Converte as medidas de tamanho para outra unidade (ex.: px -> mil com `1 / pxPerMil`)
+export function scaleGroupStats(stats: GroupStats, factor: number): GroupStats {
+  return {
+    count: stats.count,
+    mpi: { x: stats.mpi.x * factor, y: stats.mpi.y * factor },
+    extremeSpread: stats.extremeSpread * factor,
+    meanRadius: stats.meanRadius * factor,
+    sdX: stats.sdX * factor,
+    sdY: stats.sdY * factor,
+    sdRadial: stats.sdRadial * factor,
+  };
+}
@@ -0,0 +1,74 @@
+import type { MotionSample, Vec3 } from '@/lib/stability/strategies';
+
+/**
+ * Traces SINTÉTICOS de DeviceMotion a 10 Hz (como o app lê), gerados de forma determinística.
+ * Não são capturas de um aparelho real: as faixas de STABILITY_PRESETS foram ajustadas contra eles
+ * e precisam ser revistas quando houver traces capturados em campo.
+ *
+ * - rest: aparelho apoiado no bipé/saco de areia;
+ * - freehand: empunhadura em pé, atirador treinado;
+ * - shaky: respiração ofegante / logo após correr.
+ * O tremor é ruído gaussiano filtrado (AR(1)) sobre a velocidade angular e a aceleração do usuário;
+ * os ângulos de rotação são a integral da velocidade angular, como no sensor real.
+ */
+
+export type SyntheticTraceName = 'rest' | 'freehand' | 'shaky';
+
+interface TraceProfile {
+  rateSigma: number; // °/s
+  accelerationSigma: number; // m/s²
+}
+
+const PROFILES: Record<SyntheticTraceName, TraceProfile> = {
+  rest: { rateSigma: 0.4, accelerationSigma: 0.02 },
+  freehand: { rateSigma: 4, accelerationSigma: 0.15 },
+  shaky: { rateSigma: 25, accelerationSigma: 1 },
+};
+
+const INTERVAL_MS = 100;
+const CORRELATION = 0.6; // AR(1): tremor de mão não é ruído branco
+
+// PRNG com semente (mulberry32): mesmo trace a cada execução
+function random(seed: number) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(next: () => number) {
+  return Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next());
+}
+
+export function syntheticTrace(name: SyntheticTraceName, samples = 100, seed = 1): MotionSample[] {
+  const { rateSigma, accelerationSigma } = PROFILES[name];
+  const next = random(seed);
+  // Escala da inovação para que o processo AR(1) tenha o desvio pedido
+  const innovation = Math.sqrt(1 - CORRELATION * CORRELATION);
+  const step = (prev: number, sigma: number) => CORRELATION * prev + innovation * sigma * gaussian(next);
+  const stepVec = (prev: Vec3, sigma: number): Vec3 => ({
+    x: step(prev.x, sigma),
+    y: step(prev.y, sigma),
+    z: step(prev.z, sigma),
+  });
+
+  let rate: Vec3 = { x: 0, y: 0, z: 0 };
+  let acceleration: Vec3 = { x: 0, y: 0, z: 0 };
+  let rotation: Vec3 = { x: 0.3, y: 1.4, z: 0.05 }; // rad, celular quase em pé
+  const toRad = Math.PI / 180;
+  const dt = INTERVAL_MS / 1000;
+
+  return Array.from({ length: samples }, (_, i) => {
+    rate = stepVec(rate, rateSigma);
+    acceleration = stepVec(acceleration, accelerationSigma);
+    rotation = {
+      x: rotation.x + rate.x * toRad * dt,
+      y: rotation.y + rate.y * toRad * dt,
+      z: rotation.z + rate.z * toRad * dt,
+    };
+    return { t: i * INTERVAL_MS, acceleration, rotation, rotationRate: rate };
+  });
+}
@@ -0,0 +1,68 @@
+import { SyntheticTraceName, syntheticTrace } from '@/lib/stability/__fixtures__/synthetic-traces';
+import { deriveThresholds } from '@/lib/stability/calibration';
+import { classifyStability, createStabilityEngine, STABILITY_PRESETS, StabilityConfig } from '@/lib/stability/engine';
+
+function scores(config: StabilityConfig, trace: SyntheticTraceName) {
+  const engine = createStabilityEngine(config);
+  // Descarta o primeiro segundo, enquanto a janela enche
+  return syntheticTrace(trace)
+    .map((s) => engine.push(s))
+    .filter((v): v is number => v !== null)
+    .slice(10);
+}
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+describe('classifyStability', () => {
+  const thresholds = { green: 4, yellow: 10, orange: 20 };
+
+  it.each([
+    [0, 'green'],
+    [3.9, 'green'],
+    [4, 'yellow'],
+    [10, 'orange'],
+    [20, 'red'],
+  ] as const)('%d -> %s', (score, level) => {
+    expect(classifyStability(score, thresholds)).toBe(level);
+  });
+});
+
+describe('STABILITY_PRESETS', () => {
+  it.each(Object.entries(STABILITY_PRESETS))('%s classifica os traces sintéticos', (_, config) => {
+    const engine = createStabilityEngine(config);
+    expect(engine.level(median(scores(config, 'rest')))).toBe('green');
+    expect(engine.level(median(scores(config, 'freehand')))).toBe('yellow');
+    expect(engine.level(median(scores(config, 'shaky')))).toBe('red');
+  });
+
+  it.each(Object.entries(STABILITY_PRESETS))('%s tem faixas crescentes', (_, { thresholds }) => {
+    expect(thresholds.green).toBeLessThan(thresholds.yellow);
+    expect(thresholds.yellow).toBeLessThan(thresholds.orange);
+  });
+
+  it('respeita o limite do score', () => {
+    const config = STABILITY_PRESETS.acceleration;
+    expect(Math.max(...scores(config, 'shaky'))).toBeLessThanOrEqual(config.maxScore);
+  });
+
+  it('sem limite, o score cresce livre', () => {
+    const config = { ...STABILITY_PRESETS.rotation, gain: 100000 };
+    expect(Math.max(...scores(config, 'shaky'))).toBeGreaterThan(100);
+  });
+});
+
+describe('createStabilityEngine', () => {
+  it('reset descarta o histórico', () => {
+    const engine = createStabilityEngine(STABILITY_PRESETS.acceleration);
+    syntheticTrace('shaky', 20).forEach((s) => engine.push(s));
+    engine.reset();
+    expect(engine.push(syntheticTrace('rest', 1)[0])).toBeNull();
+  });
+
+  it('calibração com os traces sintéticos coloca o apoiado no verde e o ofegante no vermelho', () => {
+    const config = STABILITY_PRESETS.angularVelocity;
+    const thresholds = deriveThresholds(scores(config, 'rest'), scores(config, 'freehand'));
+    expect(classifyStability(median(scores(config, 'rest')), thresholds)).toBe('green');
+    expect(classifyStability(median(scores(config, 'shaky')), thresholds)).toBe('red');
+  });
+});
@@ -0,0 +1,113 @@
+import { SyntheticTraceName, syntheticTrace } from '@/lib/stability/__fixtures__/synthetic-traces';
+import {
+  deltaSumStrategy,
+  filteredJerkStrategy,
+  MotionSample,
+  rmsAngularVelocityStrategy,
+  StabilityStrategy,
+} from '@/lib/stability/strategies';
+
+function run(strategy: StabilityStrategy, samples: MotionSample[]) {
+  return samples.map((s) => strategy.update(s));
+}
+
+function median(values: (number | null)[]) {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+const TRACES: SyntheticTraceName[] = ['rest', 'freehand', 'shaky'];
+
+describe('deltaSumStrategy', () => {
+  it('ignora a primeira leitura e soma as variações absolutas', () => {
+    const strategy = deltaSumStrategy('acceleration', 2);
+    const at = (t: number, x: number, y: number, z: number): MotionSample => ({ t, acceleration: { x, y, z } });
+
+    expect(strategy.update(at(0, 0, 0, 9.8))).toBeNull();
+    expect(strategy.update(at(100, 0.1, -0.2, 9.8))).toBeCloseTo(0.3);
+    // Média móvel de 2: (0.3 + 0.1) / 2
+    expect(strategy.update(at(200, 0.1, -0.1, 9.8))).toBeCloseTo(0.2);
+  });
+
+  it('não conta a virada de ±180° como um giro completo', () => {
+    const strategy = deltaSumStrategy('rotation', 1);
+    strategy.update({ t: 0, rotation: { x: Math.PI - 0.01, y: 0, z: 0 } });
+    expect(strategy.update({ t: 100, rotation: { x: -Math.PI + 0.01, y: 0, z: 0 } })).toBeCloseTo(0.02);
+  });
+
+  it('devolve null sem a fonte pedida e recomeça após reset', () => {
+    const strategy = deltaSumStrategy('rotation', 5);
+    expect(strategy.update({ t: 0, acceleration: { x: 0, y: 0, z: 0 } })).toBeNull();
+    run(strategy, syntheticTrace('shaky', 20));
+    strategy.reset();
+    expect(strategy.update(syntheticTrace('rest', 1)[0])).toBeNull();
+  });
+
+  it.each(['acceleration', 'rotation'] as const)('ordena os traces por tremor (%s)', (source) => {
+    const [rest, freehand, shaky] = TRACES.map((name) => median(run(deltaSumStrategy(source, 5), syntheticTrace(name))));
+    expect(rest).toBeLessThan(freehand);
+    expect(freehand).toBeLessThan(shaky);
+  });
+});
+
+describe('rmsAngularVelocityStrategy', () => {
+  it('com velocidade constante, devolve o módulo do rotationRate', () => {
+    const strategy = rmsAngularVelocityStrategy(4);
+    const samples = Array.from({ length: 6 }, (_, i) => ({ t: i * 100, rotationRate: { x: 3, y: 4, z: 0 } }));
+    expect(run(strategy, samples).at(-1)).toBeCloseTo(5);
+  });
+
+  it('é a raiz da média dos quadrados na janela', () => {
+    const strategy = rmsAngularVelocityStrategy(2);
+    strategy.update({ t: 0, rotationRate: { x: 10, y: 0, z: 0 } });
+    strategy.update({ t: 100, rotationRate: { x: 0, y: 0, z: 2 } });
+    expect(strategy.update({ t: 200, rotationRate: { x: 0, y: 4, z: 0 } })).toBeCloseTo(Math.sqrt((4 + 16) / 2));
+  });
+
+  it('não depende da taxa de amostragem', () => {
+    const trace = syntheticTrace('freehand');
+    // O mesmo trace lido a 5 Hz (uma amostra a cada duas)
+    const slow = trace.filter((_, i) => i % 2 === 0);
+    const full = median(run(rmsAngularVelocityStrategy(10), trace));
+    expect(median(run(rmsAngularVelocityStrategy(10), slow))).toBeCloseTo(full, 0);
+  });
+
+  it('ordena os traces por tremor', () => {
+    const [rest, freehand, shaky] = TRACES.map((name) => median(run(rmsAngularVelocityStrategy(10), syntheticTrace(name))));
+    expect(rest).toBeLessThan(freehand);
+    expect(freehand).toBeLessThan(shaky);
+  });
+});
+
+describe('filteredJerkStrategy', () => {
+  it('aceleração constante (só gravidade) não gera jerk', () => {
+    const strategy = filteredJerkStrategy(10);
+    const samples = Array.from({ length: 20 }, (_, i) => ({ t: i * 100, acceleration: { x: 0.2, y: 9.8, z: 0.1 } }));
+    const values = run(strategy, samples);
+    expect(values[0]).toBeNull();
+    expect(values.at(-1)).toBe(0);
+  });
+
+  it('um degrau de aceleração gera jerk que decai', () => {
+    const strategy = filteredJerkStrategy(10);
+    strategy.update({ t: 0, acceleration: { x: 0, y: 0, z: 0 } });
+    const step = strategy.update({ t: 100, acceleration: { x: 1, y: 0, z: 0 } }) as number;
+    // Passa-alta com alpha 0.8: 0.8 m/s² em 0.1 s
+    expect(step).toBeCloseTo(8);
+    const later = run(strategy, Array.from({ length: 10 }, (_, i) => ({ t: 200 + i * 100, acceleration: { x: 1, y: 0, z: 0 } })));
+    expect(later.at(-1)).toBeLessThan(step);
+  });
+
+  it('ignora leituras com o mesmo timestamp', () => {
+    const strategy = filteredJerkStrategy(10);
+    strategy.update({ t: 0, acceleration: { x: 0, y: 0, z: 0 } });
+    const first = strategy.update({ t: 100, acceleration: { x: 1, y: 0, z: 0 } });
+    expect(strategy.update({ t: 100, acceleration: { x: 5, y: 0, z: 0 } })).toBe(first);
+  });
+
+  it('ordena os traces por tremor', () => {
+    const [rest, freehand, shaky] = TRACES.map((name) => median(run(filteredJerkStrategy(10), syntheticTrace(name))));
+    expect(rest).toBeLessThan(freehand);
+    expect(freehand).toBeLessThan(shaky);
+  });
+});
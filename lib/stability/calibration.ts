@@ -0,0 +1,37 @@
+import type { StabilityThresholds } from '@/lib/stability/engine';
+
+// Mínimo de leituras por fase (~1 s a 10 Hz)
+export const MIN_CALIBRATION_SAMPLES = 10;
+
+// Cada faixa precisa ser pelo menos 25% maior que a anterior para as luzes serem distinguíveis
+const MIN_BAND_RATIO = 1.25;
+
+export function percentile(values: number[], p: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+/**
+ * Deriva as faixas do medidor a partir de duas fases de medição:
+ * - apoiado (rest): o melhor que o conjunto atira, p90 vira o limite do verde;
+ * - mão livre (freehand): a empunhadura típica, mediana = amarelo e p90 = laranja.
+ */
+export function deriveThresholds(rest: number[], freehand: number[]): StabilityThresholds {
+  if (rest.length < MIN_CALIBRATION_SAMPLES || freehand.length < MIN_CALIBRATION_SAMPLES) {
+    throw new Error(`Calibração precisa de pelo menos ${MIN_CALIBRATION_SAMPLES} leituras por fase`);
+  }
+  if (![...rest, ...freehand].every(Number.isFinite)) {
+    throw new Error('Leituras de estabilidade inválidas');
+  }
+
+  // Piso evita faixas nulas quando o aparelho fica perfeitamente parado
+  const green = Math.max(percentile(rest, 0.9), 0.1);
+  const yellow = Math.max(percentile(freehand, 0.5), green * MIN_BAND_RATIO);
+  const orange = Math.max(percentile(freehand, 0.9), yellow * MIN_BAND_RATIO);
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return { green: round(green), yellow: round(yellow), orange: round(orange) };
+}
@@ -0,0 +1,144 @@
+import type { DeviceMotionMeasurement } from 'expo-sensors';
+
+import {
+  deltaSumStrategy,
+  DeltaSource,
+  filteredJerkStrategy,
+  MotionSample,
+  rmsAngularVelocityStrategy,
+  StabilityStrategy,
+} from '@/lib/stability/strategies';
+
+export type StabilityAlgorithm = 'delta-sum' | 'rms-angular-velocity' | 'filtered-jerk';
+
+// Limites superiores de cada faixa do medidor de 4 luzes (acima de `orange` = vermelho)
+export interface StabilityThresholds {
+  green: number;
+  yellow: number;
+  orange: number;
+}
+
+export type StabilityLevel = 'green' | 'yellow' | 'orange' | 'red';
+
+export interface StabilityConfig {
+  algorithm: StabilityAlgorithm;
+  source?: DeltaSource; // só para 'delta-sum'
+  windowSize: number;
+  gain: number;
+  maxScore?: number; // sem valor = sem limite
+  thresholds: StabilityThresholds;
+}
+
+// Faixas originais do overlay ("dificuldade moderada"), ajustadas para a soma de deltas de aceleração
+export const DEFAULT_STABILITY_THRESHOLDS: StabilityThresholds = { green: 4, yellow: 10, orange: 20 };
+
+/**
+ * Cada estratégia mede numa escala própria; as faixas abaixo separam os traces sintéticos
+ * (lib/stability/__fixtures__/synthetic-traces.ts): apoiado = verde, mão livre = amarelo, ofegante = vermelho.
+ * Ainda não foram conferidas com capturas reais do DeviceMotion.
+ */
+export const STRATEGY_THRESHOLDS = {
+  acceleration: DEFAULT_STABILITY_THRESHOLDS,
+  rotation: { green: 2, yellow: 9, orange: 18 }, // rad ×500
+  angularVelocity: { green: 1.5, yellow: 7.5, orange: 15 }, // °/s RMS
+  jerk: { green: 0.6, yellow: 2.5, orange: 5 }, // m/s³
+} satisfies Record<string, StabilityThresholds>;
+
+export const STABILITY_PRESETS = {
+  // Cálculo original da CameraScreen: deltas de aceleração, 15 leituras, ×25, limitado a 100
+  acceleration: {
+    algorithm: 'delta-sum',
+    source: 'acceleration',
+    windowSize: 15,
+    gain: 25,
+    maxScore: 100,
+    thresholds: STRATEGY_THRESHOLDS.acceleration,
+  },
+  // Cálculo original da aba Home: deltas de rotação, 5 leituras, ×500
+  rotation: {
+    algorithm: 'delta-sum',
+    source: 'rotation',
+    windowSize: 5,
+    gain: 500,
+    thresholds: STRATEGY_THRESHOLDS.rotation,
+  },
+  angularVelocity: {
+    algorithm: 'rms-angular-velocity',
+    windowSize: 10,
+    gain: 1,
+    maxScore: 100,
+    thresholds: STRATEGY_THRESHOLDS.angularVelocity,
+  },
+  jerk: {
+    algorithm: 'filtered-jerk',
+    windowSize: 10,
+    gain: 1,
+    maxScore: 100,
+    thresholds: STRATEGY_THRESHOLDS.jerk,
+  },
+} satisfies Record<string, StabilityConfig>;
+
+function createStrategy(config: StabilityConfig): StabilityStrategy {
+  switch (config.algorithm) {
+    case 'delta-sum':
+      return deltaSumStrategy(config.source ?? 'acceleration', config.windowSize);
+    case 'rms-angular-velocity':
+      return rmsAngularVelocityStrategy(config.windowSize);
+    case 'filtered-jerk':
+      return filteredJerkStrategy(config.windowSize);
+  }
+}
+
+// Classifica o score (menor = mais estável) na luz correspondente do medidor
+export function classifyStability(score: number, thresholds: StabilityThresholds): StabilityLevel {
+  if (score < thresholds.green) return 'green';
+  if (score < thresholds.yellow) return 'yellow';
+  if (score < thresholds.orange) return 'orange';
+  return 'red';
+}
+
+// Converte uma leitura do DeviceMotion para o formato das estratégias
+export function toMotionSample(data: DeviceMotionMeasurement, t = Date.now()): MotionSample {
+  // Tenta usar acceleration, se não disponível usa accelerationIncludingGravity
+  const acceleration = data.acceleration || data.accelerationIncludingGravity;
+  return {
+    t,
+    acceleration: acceleration ? { x: acceleration.x || 0, y: acceleration.y || 0, z: acceleration.z || 0 } : null,
+    rotation: data.rotation
+      ? { x: data.rotation.alpha || 0, y: data.rotation.beta || 0, z: data.rotation.gamma || 0 }
+      : null,
+    rotationRate: data.rotationRate
+      ? { x: data.rotationRate.alpha || 0, y: data.rotationRate.beta || 0, z: data.rotationRate.gamma || 0 }
+      : null,
+  };
+}
+
+/**
+ * Motor de estabilidade: aplica a estratégia configurada, o ganho e o limite.
+ * `push` retorna null enquanto a estratégia ainda não tem dados suficientes.
+ */
+export function createStabilityEngine(config: StabilityConfig) {
+  const strategy = createStrategy(config);
+
+  return {
+    config,
+
+    push(sample: MotionSample): number | null {
+      const tremor = strategy.update(sample);
+      if (tremor === null) return null;
+
+      const score = tremor * config.gain;
+      return config.maxScore === undefined ? score : Math.min(score, config.maxScore);
+    },
+
+    level(score: number) {
+      return classifyStability(score, config.thresholds);
+    },
+
+    reset() {
+      strategy.reset();
+    },
+  };
+}
+
+export type StabilityEngine = ReturnType<typeof createStabilityEngine>;
@@ -0,0 +1,52 @@
+// Configuração do assistente de disparo, definida no overlay e persistida no AsyncStorage
+export interface FireAssistSettings {
+  enabled: boolean;
+  dwellMs: number; // tempo mínimo abaixo do limite antes de abrir a janela
+  threshold: number; // limite do verde do medidor ativo
+  tone: boolean; // o tom é tocado pelo overlay (Web Audio)
+}
+
+export const DEFAULT_FIRE_ASSIST: FireAssistSettings = {
+  enabled: false,
+  dwellMs: 600,
+  threshold: 4,
+  tone: false,
+};
+
+export type FireWindowEvent = 'open' | 'close';
+
+/**
+ * Detecta a "janela de disparo": o score precisa ficar abaixo do limite por `dwellMs`
+ * seguidos para abrir; qualquer leitura acima do limite fecha imediatamente.
+ */
+export function createFireWindow() {
+  let stableSince: number | null = null;
+  let open = false;
+
+  const close = (): FireWindowEvent | null => {
+    stableSince = null;
+    if (!open) return null;
+    open = false;
+    return 'close';
+  };
+
+  return {
+    isOpen: () => open,
+
+    update(score: number, settings: FireAssistSettings, t = Date.now()): FireWindowEvent | null {
+      if (!settings.enabled || score >= settings.threshold) return close();
+
+      if (stableSince === null) stableSince = t;
+      if (!open && t - stableSince >= settings.dwellMs) {
+        open = true;
+        return 'open';
+      }
+      return null;
+    },
+
+    reset() {
+      stableSince = null;
+      open = false;
+    },
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Estratégias de cálculo de tremor. Cada uma recebe amostras de movimento
+ * e devolve um tremor bruto (antes do ganho), ou null enquanto não há dados suficientes.
+ * Sem dependências de plataforma: tudo aqui roda em testes, sem o sensor.
+ */
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Amostra normalizada do DeviceMotion (t em ms)
+export interface MotionSample {
+  t: number;
+  acceleration?: Vec3 | null;
+  rotation?: Vec3 | null; // alpha/beta/gamma em radianos
+  rotationRate?: Vec3 | null; // graus por segundo
+}
+
+export interface StabilityStrategy {
+  update(sample: MotionSample): number | null;
+  reset(): void;
+}
+
+export type DeltaSource = 'acceleration' | 'rotation';
+
+// Média móvel de tamanho fixo
+function movingWindow(size: number) {
+  let values: number[] = [];
+  return {
+    push(value: number) {
+      values.push(value);
+      if (values.length > size) values.shift();
+    },
+    values: () => values,
+    mean: () => values.reduce((a, b) => a + b, 0) / values.length,
+    reset() {
+      values = [];
+    },
+  };
+}
+
+// Diferença angular no intervalo (-π, π], evita saltos na virada de ±180°
+function angleDelta(a: number, b: number) {
+  const d = (a - b) % (2 * Math.PI);
+  if (d > Math.PI) return d - 2 * Math.PI;
+  if (d <= -Math.PI) return d + 2 * Math.PI;
+  return d;
+}
+
+/**
+ * Soma das variações absolutas entre leituras consecutivas, suavizada por média móvel.
+ * É o cálculo original das duas telas (aceleração na CameraScreen, rotação na aba Home).
+ */
+export function deltaSumStrategy(source: DeltaSource, windowSize: number): StabilityStrategy {
+  let last: Vec3 | null = null;
+  const history = movingWindow(windowSize);
+
+  return {
+    update(sample) {
+      const current = sample[source];
+      if (!current) return null;
+
+      // Inicialização - ignora primeira leitura
+      if (!last) {
+        last = { ...current };
+        return null;
+      }
+
+      const delta =
+        source === 'rotation'
+          ? (a: number, b: number) => Math.abs(angleDelta(a, b))
+          : (a: number, b: number) => Math.abs(a - b);
+      const tremor = delta(current.x, last.x) + delta(current.y, last.y) + delta(current.z, last.z);
+      last = { ...current };
+
+      history.push(tremor);
+      return history.mean();
+    },
+    reset() {
+      last = null;
+      history.reset();
+    },
+  };
+}
+
+/**
+ * RMS da velocidade angular (módulo do rotationRate) na janela.
+ * Independe da taxa de amostragem, ao contrário da soma de deltas.
+ */
+export function rmsAngularVelocityStrategy(windowSize: number): StabilityStrategy {
+  const history = movingWindow(windowSize);
+
+  return {
+    update(sample) {
+      const rate = sample.rotationRate;
+      if (!rate) return null;
+
+      history.push(rate.x * rate.x + rate.y * rate.y + rate.z * rate.z);
+      return Math.sqrt(history.mean());
+    },
+    reset() {
+      history.reset();
+    },
+  };
+}
+
+/**
+ * Jerk (derivada da aceleração) após filtro passa-alta, suavizado por passa-baixa.
+ * O passa-alta remove gravidade e deriva lenta; o passa-baixa (EMA) equivale a uma janela de `windowSize`.
+ */
+export function filteredJerkStrategy(windowSize: number, highPassAlpha = 0.8): StabilityStrategy {
+  const lowPassBeta = 2 / (windowSize + 1);
+  let lastRaw: Vec3 | null = null;
+  let lastHigh: Vec3 = { x: 0, y: 0, z: 0 };
+  let lastT = 0;
+  let smoothed: number | null = null;
+
+  return {
+    update(sample) {
+      const a = sample.acceleration;
+      if (!a) return null;
+
+      if (!lastRaw) {
+        lastRaw = { ...a };
+        lastT = sample.t;
+        return null;
+      }
+
+      const dt = (sample.t - lastT) / 1000;
+      if (dt <= 0) return smoothed;
+
+      const high = {
+        x: highPassAlpha * (lastHigh.x + a.x - lastRaw.x),
+        y: highPassAlpha * (lastHigh.y + a.y - lastRaw.y),
+        z: highPassAlpha * (lastHigh.z + a.z - lastRaw.z),
+      };
+      const jerk = Math.hypot(high.x - lastHigh.x, high.y - lastHigh.y, high.z - lastHigh.z) / dt;
+
+      lastRaw = { ...a };
+      lastHigh = high;
+      lastT = sample.t;
+
+      smoothed = smoothed === null ? jerk : smoothed + lowPassBeta * (jerk - smoothed);
+      return smoothed;
+    },
+    reset() {
+      lastRaw = null;
+      lastHigh = { x: 0, y: 0, z: 0 };
+      lastT = 0;
+      smoothed = null;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import type { CameraView } from 'expo-camera';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { loadJsonList, saveJsonList } from '@/lib/common/storage';
+import { isWeapon, validateWeapon, Weapon } from '@/lib/weapons/weapon';
+
+export const WEAPONS_KEY = 'airsoftWeapons';
+
+export function loadWeapons(): Promise<Weapon[]> {
+  return loadJsonList(WEAPONS_KEY, isWeapon);
+}
+
+const writeWeapons = (weapons: Weapon[]) => saveJsonList(WEAPONS_KEY, weapons);
+
+// Cria ou substitui pelo id. A foto só muda por setWeaponPhoto.
+export async function saveWeapon(input: Omit<Weapon, 'photoUri'>): Promise<Weapon[]> {
+  const weapons = await loadWeapons();
+  const index = weapons.findIndex((w) => w.id === input.id);
+  const weapon: Weapon = { ...input, name: input.name.trim(), photoUri: index >= 0 ? weapons[index].photoUri : null };
+  const reason = validateWeapon(weapon);
+  if (reason) throw new Error(`Arma inválida: ${reason}`);
+  if (index >= 0) weapons[index] = weapon;
+  else weapons.push(weapon);
+  return writeWeapons(weapons);
+}
+
+function deletePhoto(uri: string | null) {
+  if (!uri) return;
+  try {
+    new File(uri).delete();
+  } catch (error) {
+    console.warn('⚠️ Foto da arma não removida:', error);
+  }
+}
+
+// Os perfis da arma ficam sem arma (quem chama atualiza os perfis)
+export async function deleteWeapon(id: number): Promise<Weapon[]> {
+  const weapons = await loadWeapons();
+  deletePhoto(weapons.find((w) => w.id === id)?.photoUri ?? null);
+  return writeWeapons(weapons.filter((w) => w.id !== id));
+}
+
+/**
+ * Fotografa a réplica com a própria câmera da mira e guarda em documents/weapons.
+ * Sem som e em baixa qualidade: é só uma miniatura para reconhecer a arma na lista.
+ */
+export async function setWeaponPhoto(id: number, camera: CameraView): Promise<Weapon[]> {
+  const weapons = await loadWeapons();
+  const weapon = weapons.find((w) => w.id === id);
+  if (!weapon) throw new Error(`Arma não encontrada: ${id}`);
+
+  const picture = await camera.takePictureAsync({ quality: 0.2, exif: false, shutterSound: false });
+  const dir = new Directory(Paths.document, 'weapons');
+  dir.create({ intermediates: true, idempotent: true });
+  // Nome novo a cada foto; a anterior só é apagada depois que a nova está no lugar
+  const file = new File(dir, `${id}-${Date.now()}.jpg`);
+  new File(picture.uri).move(file);
+
+  deletePhoto(weapon.photoUri);
+  weapon.photoUri = file.uri;
+  console.log('📷 Foto da arma salva:', file.uri);
+  return writeWeapons(weapons);
+}
+
+// A página do overlay é carregada como HTML em memória e não lê file://; a foto vai como data URI
+export async function weaponPhotoDataUri(weapon: Weapon): Promise<string | null> {
+  if (!weapon.photoUri) return null;
+  const file = new File(weapon.photoUri);
+  return file.exists ? `data:image/jpeg;base64,${await file.base64()}` : null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Réplica (arma) à qual os perfis pertencem: "M4 – 10m" e "M4 – 30m" ficam sob a mesma M4.
+ * Peso da BB e FPS são os do cronógrafo, usados como referência para a balística.
+ */
+
+import { BB_MASS_RANGE } from '@/lib/ballistics/bb';
+import { isFiniteNumber, isObject } from '@/lib/common/guards';
+
+export const WEAPON_TYPES = ['rifle', 'dmr', 'sniper', 'smg', 'pistol', 'shotgun', 'lmg'] as const;
+
+export type WeaponType = (typeof WEAPON_TYPES)[number];
+
+export interface Weapon {
+  id: number;
+  name: string;
+  type: WeaponType;
+  bbWeight: number; // g
+  fps: number; // medido com a BB de `bbWeight`
+  hopNotes: string;
+  photoUri: string | null; // arquivo em documents/weapons
+}
+
+export const MAX_WEAPON_NAME = 40;
+export const MAX_HOP_NOTES = 500;
+
+/** Motivo da rejeição, ou null se `value` é uma Weapon válida. */
+export function validateWeapon(value: unknown): string | null {
+  if (!isObject(value)) return 'arma deve ser objeto';
+  if (!isFiniteNumber(value.id)) return 'id deve ser número';
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'nome é obrigatório';
+  if (value.name.length > MAX_WEAPON_NAME) return `nome deve ter até ${MAX_WEAPON_NAME} caracteres`;
+  if (!WEAPON_TYPES.includes(value.type as WeaponType)) return `tipo inválido: ${String(value.type)}`;
+  if (!isFiniteNumber(value.bbWeight) || value.bbWeight < BB_MASS_RANGE.min || value.bbWeight > BB_MASS_RANGE.max) {
+    return `peso da BB deve estar entre ${BB_MASS_RANGE.min} e ${BB_MASS_RANGE.max} g`;
+  }
+  if (!isFiniteNumber(value.fps) || value.fps <= 0 || value.fps > 700) return 'FPS deve estar entre 1 e 700';
+  if (typeof value.hopNotes !== 'string' || value.hopNotes.length > MAX_HOP_NOTES) {
+    return `notas do hop devem ter até ${MAX_HOP_NOTES} caracteres`;
+  }
+  if (value.photoUri !== null && typeof value.photoUri !== 'string') return 'photoUri deve ser string ou null';
+  return null;
+}
+
+export function isWeapon(value: unknown): value is Weapon {
+  return validateWeapon(value) === null;
+}